@@ -0,0 +1,137 @@
+/**
+ * MCP Klipper Documentation Server - Board Pins
+ * Extracts pin assignments from the generic-*.cfg controller board configs
+ */
+
+import { BoardPin, BoardPinMap, ExampleConfig, PinRole } from './types.js';
+import { configFileParser } from './config-file.js';
+import { logger } from './logger.js';
+
+const PIN_VALUE_PATTERN = /^([~^!\s]*)(?:([A-Za-z_]\w*):)?([~^!\s]*)([A-Za-z0-9_.]+)$/;
+const THERMISTOR_SECTIONS = ['extruder', 'heater_bed', 'heater_generic', 'temperature_sensor', 'temperature_fan'];
+const FAN_SECTIONS = ['fan', 'heater_fan', 'controller_fan', 'fan_generic', 'temperature_fan'];
+const ROLE_OPTIONS: Record<string, PinRole> = {
+  step_pin: 'step',
+  dir_pin: 'dir',
+  enable_pin: 'enable',
+  endstop_pin: 'endstop',
+  heater_pin: 'heater'
+};
+
+export class BoardPinIndex {
+  private boards: Map<string, BoardPinMap> = new Map();
+
+  /**
+   * Build pin maps for every generic-* board in the example config corpus
+   */
+  load(configs: ExampleConfig[]): Map<string, BoardPinMap> {
+    this.boards.clear();
+
+    for (const example of configs) {
+      if (example.kind !== 'generic') continue;
+      this.boards.set(example.id, this.parseBoard(example));
+    }
+
+    logger.info(`Extracted pin maps for ${this.boards.size} boards`, 'BoardPinIndex');
+    return this.boards;
+  }
+
+  private parseBoard(example: ExampleConfig): BoardPinMap {
+    const parsed = configFileParser.parse(example.filePath, { [example.filePath]: example.content });
+    const pins: BoardPin[] = [];
+
+    for (const section of parsed.sections) {
+      const sectionType = (section.name.split(/\s+/)[0] || '').toLowerCase();
+      if (sectionType === 'board_pins') continue;
+
+      for (const [option, value] of Object.entries(section.options)) {
+        if (option !== 'pin' && !option.endsWith('_pin')) continue;
+
+        const pinMatch = PIN_VALUE_PATTERN.exec(value.value.trim());
+        const pin = pinMatch?.[4];
+        // Virtual endstops such as "probe:z_virtual_endstop" are not board pins
+        if (!pinMatch || !pin || /virtual_endstop$/.test(pin)) continue;
+
+        const modifiers = `${pinMatch[1] || ''}${pinMatch[3] || ''}`;
+        pins.push({
+          section: section.name,
+          option,
+          role: this.classify(sectionType, option),
+          pin,
+          raw: value.value.trim(),
+          pullup: modifiers.includes('^'),
+          invert: modifiers.includes('!'),
+          line: value.line
+        });
+      }
+    }
+
+    return {
+      board: example.id,
+      name: example.board,
+      mcu: example.mcu,
+      filePath: example.filePath,
+      pins
+    };
+  }
+
+  private classify(sectionType: string, option: string): PinRole {
+    const role = ROLE_OPTIONS[option];
+    if (role) {
+      return role;
+    }
+    if (option === 'sensor_pin' && THERMISTOR_SECTIONS.includes(sectionType)) {
+      return 'thermistor';
+    }
+    if (option === 'pin' && FAN_SECTIONS.includes(sectionType)) {
+      return 'fan';
+    }
+    return 'other';
+  }
+
+  /**
+   * Boards whose config id or name contains the query, exact ids first
+   */
+  findBoards(query: string): BoardPinMap[] {
+    const key = query.trim().toLowerCase().replace(/\.cfg$/, '');
+    const exact = this.boards.get(key) || this.boards.get(`generic-${key}`);
+    if (exact) {
+      return [exact];
+    }
+
+    return this.getAllBoards().filter(board =>
+      board.board.toLowerCase().includes(key) || (board.name || '').toLowerCase().includes(key)
+    );
+  }
+
+  /**
+   * Reverse lookup: every board that assigns the given pin, optionally
+   * restricted to one role (e.g. which boards use PA8 for a heater)
+   */
+  findPin(pin: string, role?: PinRole): BoardPinMap[] {
+    const key = pin.trim().replace(/^[~^!]+/, '').toLowerCase();
+
+    return this.getAllBoards()
+      .map(board => ({
+        ...board,
+        pins: board.pins.filter(assignment =>
+          assignment.pin.toLowerCase() === key && (!role || assignment.role === role)
+        )
+      }))
+      .filter(board => board.pins.length > 0);
+  }
+
+  getBoard(id: string): BoardPinMap | undefined {
+    return this.boards.get(id);
+  }
+
+  getAllBoards(): BoardPinMap[] {
+    return Array.from(this.boards.values()).sort((a, b) => a.board.localeCompare(b.board));
+  }
+
+  clear(): void {
+    this.boards.clear();
+  }
+}
+
+export const boardPins = new BoardPinIndex();
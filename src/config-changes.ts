@@ -0,0 +1,216 @@
+/**
+ * MCP Klipper Documentation Server - Config Changes
+ * Parses Config_Changes.md into dated entries and checks configs against them
+ */
+
+import {
+  ParsedDocument,
+  ParsedPrinterConfig,
+  ConfigChangeEntry,
+  ConfigChangeKind,
+  DeprecationFinding,
+  DeprecationReport
+} from './types.js';
+import { ConfigSchemaParser, configSchema } from './config-schema.js';
+import { logger } from './logger.js';
+
+const ENTRY_PATTERN = /^(\d{4})(\d{2})(\d{2}):\s*(.*)$/;
+const REPLACEMENT_PATTERN = /(?:renamed to|superc?eded by|superseded by|replaced (?:by|with)|in favor of)\s+(?:the\s+)?`([^`]+)`/i;
+const SECTION_TEXT_PATTERN = /(?<![\w(])\[([a-z][a-z0-9_]*)(?:\s[^\]]*)?\](?!\()/g;
+const SECTION_LINK_PATTERN = /\]\([^)]*Config_Reference\.md#([a-z0-9_]+)\)/g;
+
+export class ConfigChangeLog {
+  private entries: ConfigChangeEntry[] = [];
+
+  constructor(private schema: ConfigSchemaParser = configSchema) {}
+
+  parse(doc: ParsedDocument): ConfigChangeEntry[] {
+    this.entries = [];
+
+    let current: { date: string; lines: string[] } | null = null;
+    let inFence = false;
+
+    const finishEntry = () => {
+      if (current) {
+        this.entries.push(this.createEntry(current.date, current.lines.join(' ')));
+        current = null;
+      }
+    };
+
+    for (const line of doc.content.split('\n')) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      const entryMatch = ENTRY_PATTERN.exec(trimmed);
+      if (entryMatch) {
+        finishEntry();
+        current = { date: `${entryMatch[1]}-${entryMatch[2]}-${entryMatch[3]}`, lines: [entryMatch[4] || ''] };
+        continue;
+      }
+
+      if (trimmed.startsWith('#')) {
+        finishEntry();
+        continue;
+      }
+
+      if (current && trimmed) {
+        current.lines.push(trimmed);
+      }
+    }
+
+    finishEntry();
+
+    logger.info(`Extracted ${this.entries.length} config change entries`, 'ConfigChangeLog');
+    return this.entries;
+  }
+
+  private createEntry(date: string, rawText: string): ConfigChangeEntry {
+    const text = rawText.replace(/\s+/g, ' ').trim();
+    const sections = new Set<string>();
+    const options = new Set<string>();
+    const commands = new Set<string>();
+
+    for (const match of text.matchAll(/`([^`]+)`/g)) {
+      const span = (match[1] || '').trim();
+
+      const sectionMatch = /^\[([a-z0-9_]+)(?:\s[^\]]*)?\]$/.exec(span);
+      const commandMatch = /^([A-Z][A-Z0-9_]{2,})(?:\s|$)/.exec(span);
+      const optionMatch = /^([a-z][a-z0-9_<>]*)(?:\s*[:=].*)?$/.exec(span);
+
+      if (sectionMatch && sectionMatch[1]) {
+        sections.add(sectionMatch[1]);
+      } else if (commandMatch && commandMatch[1]) {
+        commands.add(commandMatch[1]);
+      } else if (optionMatch && optionMatch[1]) {
+        options.add(optionMatch[1]);
+      }
+    }
+
+    // Sections named in plain text ("[printer] section") or linked to the config reference
+    const plainText = text.replace(/`[^`]*`/g, '');
+    for (const match of plainText.matchAll(SECTION_TEXT_PATTERN)) {
+      if (match[1]) sections.add(match[1]);
+    }
+    for (const match of text.matchAll(SECTION_LINK_PATTERN)) {
+      if (match[1]) sections.add(match[1]);
+    }
+
+    const replacement = REPLACEMENT_PATTERN.exec(text);
+
+    return {
+      date,
+      kind: this.classify(text),
+      text,
+      sections: Array.from(sections),
+      options: Array.from(options),
+      commands: Array.from(commands),
+      replacement: replacement && replacement[1] ? replacement[1] : undefined
+    };
+  }
+
+  private classify(text: string): ConfigChangeKind {
+    if (/\bremoved\b|no longer (?:supported|available|accepted|valid)/i.test(text)) {
+      return 'removed';
+    }
+    if (/\bdeprecated\b/i.test(text)) {
+      return 'deprecated';
+    }
+    if (/\brenamed\b|superc?eded by|superseded by|replaced (?:by|with)/i.test(text)) {
+      return 'renamed';
+    }
+    return 'changed';
+  }
+
+  /**
+   * Find every change entry that affects the options, sections or commands
+   * used in a parsed printer config. With an install date, each finding
+   * records whether the change is already in effect on that install.
+   */
+  checkConfig(config: ParsedPrinterConfig, installDate?: Date): DeprecationReport {
+    const findings: DeprecationFinding[] = [];
+    const installDay = installDate ? installDate.toISOString().slice(0, 10) : undefined;
+    const inEffect = (entry: ConfigChangeEntry) => installDay ? entry.date <= installDay : undefined;
+    const breaking = this.entries.filter(entry => entry.kind !== 'changed');
+
+    for (const section of config.sections) {
+      const names = new Set<string>([section.name.toLowerCase(), (section.name.split(/\s+/)[0] || '').toLowerCase()]);
+      const schemaName = this.schema.findSection(section.name)?.name;
+      if (schemaName) {
+        names.add(schemaName);
+      }
+      const appliesToSection = (entry: ConfigChangeEntry) =>
+        entry.sections.length === 0 || entry.sections.some(name => names.has(name));
+
+      for (const [option, value] of Object.entries(section.options)) {
+        for (const entry of this.entries) {
+          if (!entry.options.some(name => this.matchesOption(name, option)) || !appliesToSection(entry)) continue;
+          findings.push({
+            section: section.name,
+            option,
+            file: value.file,
+            line: value.line,
+            entry,
+            inEffect: inEffect(entry)
+          });
+        }
+
+        // Commands removed or renamed outright, called from G-Code templates
+        for (const entry of breaking) {
+          if (entry.options.length > 0) continue;
+          const command = entry.commands.find(name => new RegExp(`\\b${name}\\b`, 'i').test(value.value));
+          if (!command) continue;
+          findings.push({
+            section: section.name,
+            option,
+            command,
+            file: value.file,
+            line: value.line,
+            entry,
+            inEffect: inEffect(entry)
+          });
+        }
+      }
+
+      // Whole sections that were removed or renamed
+      for (const entry of breaking) {
+        if (entry.options.length > 0 || entry.commands.length > 0) continue;
+        if (!entry.sections.some(name => names.has(name))) continue;
+        findings.push({
+          section: section.name,
+          file: section.file,
+          line: section.line,
+          entry,
+          inEffect: inEffect(entry)
+        });
+      }
+    }
+
+    findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    return { installDate: installDay, findings };
+  }
+
+  private matchesOption(documented: string, option: string): boolean {
+    if (!documented.includes('<')) {
+      return documented === option;
+    }
+    // Placeholder options such as "default_parameter_<name>"
+    const pattern = documented.split(/<[^>]+>/).join('\\w+');
+    return new RegExp(`^${pattern}$`).test(option);
+  }
+
+  getEntries(): ConfigChangeEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export const configChangeLog = new ConfigChangeLog();
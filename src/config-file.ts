@@ -0,0 +1,215 @@
+/**
+ * MCP Klipper Documentation Server - Config File Parser
+ * Parses Klipper's printer.cfg dialect, including [include] files and the
+ * auto-generated SAVE_CONFIG block
+ */
+
+import * as path from 'path';
+import { ParsedPrinterConfig, ConfigFileSection, ConfigFileValue } from './types.js';
+import { ValidationError } from './errors.js';
+import { logger } from './logger.js';
+
+interface ParseState {
+  config: ParsedPrinterConfig;
+  sections: Map<string, ConfigFileSection>;
+  files: Map<string, string>;
+}
+
+const SAVE_CONFIG_HEADER = /^#\*# <-+ SAVE_CONFIG -+>\s*$/;
+const AUTOSAVE_PREFIX = /^#\*#\s?/;
+const SECTION_PATTERN = /^\[([^\]]+)\]$/;
+const OPTION_PATTERN = /^([^:=]+?)\s*[:=]\s*(.*)$/;
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Normalize a config path to forward slashes without leading "./"
+ */
+export function normalizeConfigPath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/'));
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] || '';
+    if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 1) > i + 1) {
+      const end = glob.indexOf(']', i + 1);
+      pattern += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+export class ConfigFileParser {
+  /**
+   * Parse a config file and everything it includes. Files are supplied as a
+   * map of path to content; include globs are resolved against its keys.
+   */
+  parse(mainFile: string, files: Record<string, string>): ParsedPrinterConfig {
+    const main = normalizeConfigPath(mainFile);
+    const state: ParseState = {
+      config: { mainFile: main, files: [main], sections: [], warnings: [] },
+      sections: new Map(),
+      files: new Map(Object.entries(files).map(([name, content]) => [normalizeConfigPath(name), content]))
+    };
+
+    const content = state.files.get(main);
+    if (content === undefined) {
+      throw new ValidationError(`Config file not found: ${mainFile}`, 'ConfigFileParser.parse', {
+        files: Array.from(state.files.keys())
+      });
+    }
+
+    const lines = content.split(/\r?\n/);
+    const headerIndex = lines.findIndex(line => SAVE_CONFIG_HEADER.test(line));
+
+    if (headerIndex < 0) {
+      this.parseLines(state, main, lines, 0, false, [main]);
+    } else {
+      this.parseLines(state, main, lines.slice(0, headerIndex), 0, false, [main]);
+
+      // SAVE_CONFIG values are stored as "#*# " prefixed lines and override the regular config
+      const autosaveLines = lines.slice(headerIndex + 1).map((line, index) => {
+        if (AUTOSAVE_PREFIX.test(line)) {
+          return line.replace(AUTOSAVE_PREFIX, '');
+        }
+        if (line.trim()) {
+          state.config.warnings.push({
+            file: main,
+            line: headerIndex + index + 2,
+            message: 'Line after the SAVE_CONFIG header is missing the "#*#" prefix'
+          });
+        }
+        return '';
+      });
+      this.parseLines(state, main, autosaveLines, headerIndex + 1, true, [main]);
+    }
+
+    logger.debug(`Parsed config with ${state.config.sections.length} sections from ${state.config.files.length} files`, 'ConfigFileParser');
+    return state.config;
+  }
+
+  private parseLines(
+    state: ParseState,
+    file: string,
+    lines: string[],
+    lineOffset: number,
+    autosave: boolean,
+    stack: string[]
+  ): void {
+    let section: ConfigFileSection | null = null;
+    let option: ConfigFileValue | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const raw = lines[i] || '';
+      const lineNumber = lineOffset + i + 1;
+      const fullTrimmed = raw.trim();
+
+      // Full-line comments and blank lines never end a multi-line value
+      if (!fullTrimmed || fullTrimmed.startsWith('#') || fullTrimmed.startsWith(';')) continue;
+
+      const line = this.stripInlineComment(raw);
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      // Indented lines continue the previous option's value
+      if (/^\s/.test(line) && option) {
+        option.value = option.value ? `${option.value}\n${trimmed}` : trimmed;
+        continue;
+      }
+
+      const sectionMatch = SECTION_PATTERN.exec(trimmed);
+      if (sectionMatch && sectionMatch[1]) {
+        const name = sectionMatch[1].trim();
+        option = null;
+
+        if (name.split(/\s+/)[0] === 'include') {
+          section = null;
+          this.processInclude(state, file, name.slice('include'.length).trim(), lineNumber, stack);
+        } else {
+          section = this.getSection(state, name, file, lineNumber);
+        }
+        continue;
+      }
+
+      // Before the first section of the SAVE_CONFIG block only the notice lines appear
+      if (autosave && !section) continue;
+
+      const optionMatch = OPTION_PATTERN.exec(trimmed);
+      if (optionMatch && optionMatch[1]) {
+        if (!section) {
+          state.config.warnings.push({ file, line: lineNumber, message: `Option outside of a section: ${trimmed}` });
+          option = null;
+          continue;
+        }
+
+        option = { value: (optionMatch[2] || '').trim(), file, line: lineNumber, autosave };
+        section.options[optionMatch[1].trim().toLowerCase()] = option;
+        continue;
+      }
+
+      state.config.warnings.push({ file, line: lineNumber, message: `Unable to parse line: ${trimmed}` });
+      option = null;
+    }
+  }
+
+  private processInclude(state: ParseState, file: string, pattern: string, line: number, stack: string[]): void {
+    const target = path.posix.isAbsolute(pattern)
+      ? normalizeConfigPath(pattern)
+      : normalizeConfigPath(path.posix.join(path.posix.dirname(file), pattern));
+
+    const isGlob = GLOB_CHARS.test(pattern);
+    const matcher = globToRegExp(target);
+    const matches = isGlob
+      ? Array.from(state.files.keys()).filter(name => matcher.test(name)).sort()
+      : state.files.has(target) ? [target] : [];
+
+    if (matches.length === 0) {
+      if (!isGlob) {
+        state.config.warnings.push({ file, line, message: `Include file does not exist: ${pattern}` });
+      }
+      return;
+    }
+
+    for (const match of matches) {
+      if (stack.includes(match)) {
+        state.config.warnings.push({ file, line, message: `Recursive include of ${match}` });
+        continue;
+      }
+
+      if (!state.config.files.includes(match)) {
+        state.config.files.push(match);
+      }
+
+      const content = state.files.get(match) || '';
+      this.parseLines(state, match, content.split(/\r?\n/), 0, false, [...stack, match]);
+    }
+  }
+
+  private getSection(state: ParseState, name: string, file: string, line: number): ConfigFileSection {
+    let section = state.sections.get(name);
+    if (!section) {
+      section = { name, file, line, options: {} };
+      state.sections.set(name, section);
+      state.config.sections.push(section);
+    }
+    return section;
+  }
+
+  private stripInlineComment(line: string): string {
+    // Klipper only treats "#" and ";" as comments when preceded by whitespace
+    const match = /\s[#;]/.exec(line);
+    return match ? line.slice(0, match.index) : line;
+  }
+}
+
+export const configFileParser = new ConfigFileParser();
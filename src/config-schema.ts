@@ -0,0 +1,254 @@
+/**
+ * MCP Klipper Documentation Server - Config Schema
+ * Extracts a structured option schema from Config_Reference.md
+ */
+
+import { ParsedDocument, ConfigSectionSchema, ConfigOptionSchema, ConfigOptionType } from './types.js';
+import { createAnchor } from './parser.js';
+import { logger } from './logger.js';
+
+interface RawOption {
+  schema: ConfigOptionSchema;
+  commented: boolean;
+  value: string;
+}
+
+interface HeadingContext {
+  text: string;
+  anchor: string;
+  sectionName: string | null;
+}
+
+const HEADING_PATTERN = /^(#{2,6})\s+(.+)$/;
+const SECTION_HEADER_PATTERN = /^\[([^\]]+)\]\s*$/;
+// Names such as pid_Kp or driver_SGTHRS are stored lowercased; Klipper reads options case-insensitively
+const OPTION_PATTERN = /^(#?)([a-zA-Z][a-zA-Z0-9_<>]*):\s*(.*)$/;
+const DESCRIPTION_PATTERN = /^#\s{2,}(.*)$/;
+const REQUIRED_PATTERN = /must be (?:provided|specified)\s*(?:\.|$)/i;
+const DEFAULT_PATTERN = /the default is\s+"?([^\s"]+?)"?[.,;]?(?:\s|$)/i;
+const UNIT_PATTERN = /\(in (?:mm|seconds|degrees|celsius|hz|ohms|volts|amps)/i;
+
+export class ConfigSchemaParser {
+  private sections: Map<string, ConfigSectionSchema> = new Map();
+
+  parse(doc: ParsedDocument): Map<string, ConfigSectionSchema> {
+    this.sections.clear();
+
+    const rawOptions: RawOption[] = [];
+    let heading: HeadingContext | null = null;
+    let inFence = false;
+    let section: ConfigSectionSchema | null = null;
+    let option: RawOption | null = null;
+
+    for (const line of doc.content.split('\n')) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        option = null;
+        continue;
+      }
+
+      if (!inFence) {
+        const headingMatch = HEADING_PATTERN.exec(line);
+        if (headingMatch && headingMatch[2]) {
+          const text = headingMatch[2].trim();
+          const bracketMatch = /^\[([a-z0-9_]+)/i.exec(text);
+          heading = {
+            text,
+            anchor: createAnchor(text),
+            sectionName: bracketMatch && bracketMatch[1] ? bracketMatch[1].toLowerCase() : null
+          };
+          section = null;
+          option = null;
+        }
+        continue;
+      }
+
+      const headerMatch = SECTION_HEADER_PATTERN.exec(trimmed);
+      if (headerMatch && headerMatch[1] && heading) {
+        section = this.openSection(headerMatch[1].trim(), heading);
+        option = null;
+        continue;
+      }
+
+      if (!section) continue;
+
+      const optionMatch = OPTION_PATTERN.exec(line);
+      if (optionMatch && optionMatch[2]) {
+        const name = optionMatch[2].toLowerCase();
+        const existing = section.options.find(opt => opt.name === name);
+        if (existing) {
+          // Kinematics variants repeat options; the first definition wins
+          option = null;
+          continue;
+        }
+
+        const schema: ConfigOptionSchema = { name, type: 'string', required: false, description: [] };
+        section.options.push(schema);
+        option = { schema, commented: optionMatch[1] === '#', value: (optionMatch[3] || '').trim() };
+        rawOptions.push(option);
+        continue;
+      }
+
+      const descriptionMatch = DESCRIPTION_PATTERN.exec(line);
+      if (descriptionMatch && option) {
+        const text = (descriptionMatch[1] || '').trim();
+        if (text) {
+          option.schema.description.push(text);
+        }
+        continue;
+      }
+
+      // Indented lines continue a multi-line value; anything else ends the option
+      if (!/^\s/.test(line)) {
+        option = null;
+      }
+    }
+
+    rawOptions.forEach(raw => this.finalizeOption(raw));
+
+    logger.info(`Extracted config schema for ${this.sections.size} sections`, 'ConfigSchemaParser');
+    return this.sections;
+  }
+
+  private openSection(header: string, heading: HeadingContext): ConfigSectionSchema {
+    const headerName = (header.split(/\s+/)[0] || header).toLowerCase();
+    const name = heading.sectionName || this.findSection(headerName)?.name || headerName;
+
+    let section = this.sections.get(name);
+    if (!section) {
+      section = {
+        name,
+        heading: heading.text,
+        anchor: heading.anchor,
+        examples: [],
+        options: []
+      };
+      this.sections.set(name, section);
+    }
+
+    if (!section.examples.includes(header)) {
+      section.examples.push(header);
+    }
+
+    return section;
+  }
+
+  private finalizeOption(raw: RawOption): void {
+    const description = raw.schema.description.join(' ');
+    const defaultValue = raw.value || this.extractDefault(description);
+
+    raw.schema.required = !raw.commented && !raw.value && REQUIRED_PATTERN.test(description);
+    raw.schema.type = this.inferType(raw.schema.name, defaultValue, description);
+    if (defaultValue) {
+      raw.schema.default = defaultValue;
+    }
+  }
+
+  private extractDefault(description: string): string | undefined {
+    const match = DEFAULT_PATTERN.exec(description);
+    if (!match || !match[1]) {
+      return undefined;
+    }
+
+    // Strip unit suffixes such as "0mm" or "5s" so numeric defaults stay numeric
+    const unitMatch = /^(-?\d+(?:\.\d+)?)(?:mm|s|ms|hz|%)$/i.exec(match[1]);
+    return unitMatch && unitMatch[1] ? unitMatch[1] : match[1];
+  }
+
+  private inferType(name: string, defaultValue: string | undefined, description: string): ConfigOptionType {
+    if (name === 'pin' || name.endsWith('_pin')) {
+      return 'pin';
+    }
+
+    if (defaultValue !== undefined) {
+      if (/^(true|false)$/i.test(defaultValue)) {
+        return 'bool';
+      }
+      if (/^-?\d+$/.test(defaultValue)) {
+        return UNIT_PATTERN.test(description) ? 'float' : 'int';
+      }
+      if (/^-?\d*\.\d+$/.test(defaultValue)) {
+        return 'float';
+      }
+      if (defaultValue.includes(',')) {
+        return 'list';
+      }
+    }
+
+    if (/comma separated list/i.test(description)) {
+      return 'list';
+    }
+    if (UNIT_PATTERN.test(description)) {
+      return 'float';
+    }
+
+    return 'string';
+  }
+
+  /**
+   * Resolve a section name as written in printer.cfg (e.g. "stepper_y",
+   * "extruder1", "tmc2209 stepper_x") to its documented schema
+   */
+  findSection(name: string): ConfigSectionSchema | undefined {
+    const key = (name.trim().replace(/^\[|\]$/g, '').split(/\s+/)[0] || '').toLowerCase();
+    if (!key) {
+      return undefined;
+    }
+
+    const direct = this.sections.get(key);
+    if (direct) {
+      return direct;
+    }
+
+    const sections = Array.from(this.sections.values());
+    const byExample = sections.find(section =>
+      section.examples.some(example => (example.split(/\s+/)[0] || '').toLowerCase() === key)
+    );
+    if (byExample) {
+      return byExample;
+    }
+
+    // Numbered or per-axis variants such as "extruder1" or "stepper_z1"
+    let best: ConfigSectionSchema | undefined;
+    for (const section of sections) {
+      const rest = key.slice(section.name.length);
+      if (key.startsWith(section.name) && /^[_\d]/.test(rest)) {
+        if (!best || section.name.length > best.name.length) {
+          best = section;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  findOption(name: string): Array<{ section: ConfigSectionSchema; option: ConfigOptionSchema }> {
+    const key = name.trim().toLowerCase();
+    const matches: Array<{ section: ConfigSectionSchema; option: ConfigOptionSchema }> = [];
+
+    this.sections.forEach(section => {
+      const option = section.options.find(opt => opt.name === key);
+      if (option) {
+        matches.push({ section, option });
+      }
+    });
+
+    return matches;
+  }
+
+  getSection(name: string): ConfigSectionSchema | undefined {
+    return this.sections.get(name);
+  }
+
+  getAllSections(): ConfigSectionSchema[] {
+    return Array.from(this.sections.values());
+  }
+
+  clear(): void {
+    this.sections.clear();
+  }
+}
+
+export const configSchema = new ConfigSchemaParser();
@@ -0,0 +1,156 @@
+/**
+ * MCP Klipper Documentation Server - Config Validator
+ * Checks a user's printer.cfg against the documented config schema
+ */
+
+import {
+  ParsedPrinterConfig,
+  ConfigFileSection,
+  ConfigFinding,
+  ConfigValidationReport,
+  ConfigOptionSchema,
+  ConfigOptionType,
+  ConfigSectionSchema
+} from './types.js';
+import { ConfigSchemaParser, configSchema } from './config-schema.js';
+import { configFileParser } from './config-file.js';
+import { closestMatches } from './suggest.js';
+import { logger } from './logger.js';
+
+// Sections that store named profiles written by SAVE_CONFIG (e.g. [bed_mesh default])
+const PROFILE_SECTIONS = ['bed_mesh', 'skew_correction'];
+
+const TYPE_PATTERNS: Partial<Record<ConfigOptionType, RegExp>> = {
+  int: /^[-+]?\d+$/,
+  float: /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i,
+  bool: /^(true|false|yes|no|on|off|1|0)$/i,
+  pin: /^[^\s,]+$/
+};
+
+export class ConfigValidator {
+  constructor(private schema: ConfigSchemaParser = configSchema) {}
+
+  validate(configText: string, files: Record<string, string> = {}, mainFile = 'printer.cfg'): ConfigValidationReport {
+    return this.validateConfig(configFileParser.parse(mainFile, { ...files, [mainFile]: configText }));
+  }
+
+  validateConfig(config: ParsedPrinterConfig): ConfigValidationReport {
+    const findings: ConfigFinding[] = [];
+    const knownSections = this.schema.getAllSections().flatMap(section => [
+      section.name,
+      ...section.examples.map(example => (example.split(/\s+/)[0] || '').toLowerCase())
+    ]);
+
+    for (const section of config.sections) {
+      const words = section.name.split(/\s+/);
+      const sectionType = (words[0] || '').toLowerCase();
+      if (words.length > 1 && PROFILE_SECTIONS.includes(sectionType)) continue;
+
+      const sectionSchema = this.schema.findSection(section.name);
+      if (!sectionSchema) {
+        findings.push({
+          type: 'unknown-section',
+          severity: 'warning',
+          section: section.name,
+          file: section.file,
+          line: section.line,
+          message: `Unknown config section [${section.name}]`,
+          suggestions: closestMatches(sectionType, knownSections)
+        });
+        continue;
+      }
+
+      findings.push(...this.validateSection(section, sectionSchema));
+    }
+
+    findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+    logger.debug(`Validated ${config.sections.length} config sections, ${findings.length} findings`, 'ConfigValidator');
+
+    return {
+      valid: !findings.some(finding => finding.severity === 'error'),
+      sectionsChecked: config.sections.length,
+      findings
+    };
+  }
+
+  private validateSection(section: ConfigFileSection, sectionSchema: ConfigSectionSchema): ConfigFinding[] {
+    const findings: ConfigFinding[] = [];
+    const docLink = `klipper://docs/Config_Reference#${sectionSchema.anchor}`;
+    const optionNames = sectionSchema.options.map(option => option.name);
+    // Schema names are lowercase; options such as pid_Kp may be written in any case
+    const present = new Set(Object.keys(section.options).map(name => name.toLowerCase()));
+
+    for (const [name, entry] of Object.entries(section.options)) {
+      const optionSchema = this.matchOption(sectionSchema, name);
+
+      if (!optionSchema) {
+        const suggestions = closestMatches(name, optionNames);
+        findings.push({
+          type: 'unknown-option',
+          severity: 'error',
+          section: section.name,
+          option: name,
+          file: entry.file,
+          line: entry.line,
+          message: suggestions.length > 0
+            ? `Unknown option "${name}" in [${section.name}], did you mean "${suggestions[0]}"?`
+            : `Unknown option "${name}" in [${section.name}]`,
+          suggestions,
+          docLink
+        });
+        continue;
+      }
+
+      const pattern = TYPE_PATTERNS[optionSchema.type];
+      if (pattern && entry.value && !pattern.test(entry.value)) {
+        findings.push({
+          type: 'invalid-type',
+          severity: 'error',
+          section: section.name,
+          option: name,
+          file: entry.file,
+          line: entry.line,
+          message: `Option "${name}" in [${section.name}] expects a ${optionSchema.type} value, got "${entry.value}"`,
+          suggestions: [],
+          docLink
+        });
+      }
+    }
+
+    sectionSchema.options
+      .filter(option => option.required && !present.has(option.name))
+      .forEach(option => {
+        findings.push({
+          type: 'missing-required',
+          severity: 'error',
+          section: section.name,
+          option: option.name,
+          file: section.file,
+          line: section.line,
+          message: `Missing required option "${option.name}" in [${section.name}]`,
+          suggestions: [],
+          docLink
+        });
+      });
+
+    return findings;
+  }
+
+  private matchOption(sectionSchema: ConfigSectionSchema, name: string): ConfigOptionSchema | undefined {
+    const key = name.toLowerCase();
+    const exact = sectionSchema.options.find(option => option.name === key);
+    if (exact) {
+      return exact;
+    }
+
+    // Placeholder options such as "variable_<name>"
+    return sectionSchema.options.find(option => {
+      if (!option.name.includes('<')) return false;
+      const pattern = option.name.replace(/<[^>]+>/g, '.+');
+      return new RegExp(`^${pattern}$`).test(key);
+    });
+  }
+}
+
+export const configValidator = new ConfigValidator();
@@ -3,7 +3,7 @@
  * Application configuration management
  */
 
-import { AppConfig, LogLevel } from './types.js';
+import { AppConfig, DocsSourceMode, LogLevel } from './types.js';
 import * as path from 'path';
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -11,17 +11,37 @@ const DEFAULT_CONFIG: AppConfig = {
     name: 'mcp-klipper',
     version: '1.0.0'
   },
+  transport: {
+    mode: 'stdio',
+    host: '127.0.0.1',
+    port: 3000,
+    maxSessions: 50,
+    sessionIdleTimeout: 1800000 // 30 minutes
+  },
   git: {
     repository: 'https://github.com/Klipper3d/klipper.git',
     branch: 'master',
     localPath: path.join(process.cwd(), 'data', 'klipper-repo'),
-    syncInterval: 3600000 // 1 hour in milliseconds
+    syncInterval: 3600000, // 1 hour in milliseconds
+    refs: [],
+    retries: 3,
+    retryDelay: 2000,
+    sparseCheckout: false
+  },
+  source: {
+    mode: 'git',
+    localPath: path.join(process.cwd(), 'docs'),
+    snapshotPath: path.join(process.cwd(), 'data', 'klipper-docs-snapshot.tar.gz')
   },
   search: {
     maxResults: 10,
     snippetLength: 200,
     minScore: 0.1
   },
+  cache: {
+    enabled: true,
+    path: path.join(process.cwd(), 'data', 'index-cache')
+  },
   logging: {
     level: LogLevel.INFO,
     format: 'text'
@@ -29,22 +49,47 @@ const DEFAULT_CONFIG: AppConfig = {
 };
 
 export function getConfig(): AppConfig {
+  const localPath = process.env.GIT_LOCAL_PATH || DEFAULT_CONFIG.git.localPath;
+
   return {
     server: {
       name: process.env.SERVER_NAME || DEFAULT_CONFIG.server.name,
       version: process.env.SERVER_VERSION || DEFAULT_CONFIG.server.version
     },
+    transport: {
+      mode: process.env.MCP_TRANSPORT === 'http' ? 'http' : DEFAULT_CONFIG.transport.mode,
+      host: process.env.MCP_HTTP_HOST || DEFAULT_CONFIG.transport.host,
+      port: parseInt(process.env.MCP_HTTP_PORT || '') || DEFAULT_CONFIG.transport.port,
+      authToken: process.env.MCP_AUTH_TOKEN || undefined,
+      maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '') || DEFAULT_CONFIG.transport.maxSessions,
+      sessionIdleTimeout: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT || '') || DEFAULT_CONFIG.transport.sessionIdleTimeout
+    },
     git: {
       repository: process.env.GIT_REPOSITORY || DEFAULT_CONFIG.git.repository,
       branch: process.env.GIT_BRANCH || DEFAULT_CONFIG.git.branch,
-      localPath: process.env.GIT_LOCAL_PATH || DEFAULT_CONFIG.git.localPath,
-      syncInterval: parseInt(process.env.GIT_SYNC_INTERVAL || '') || DEFAULT_CONFIG.git.syncInterval
+      localPath,
+      syncInterval: parseInt(process.env.GIT_SYNC_INTERVAL || '') || DEFAULT_CONFIG.git.syncInterval,
+      // Comma or space separated, e.g. "master,v0.12.0"
+      refs: process.env.GIT_REFS ? process.env.GIT_REFS.split(/[\s,]+/).filter(Boolean) : DEFAULT_CONFIG.git.refs,
+      retries: parseInt(process.env.GIT_RETRIES || '') || DEFAULT_CONFIG.git.retries,
+      retryDelay: parseInt(process.env.GIT_RETRY_DELAY || '') || DEFAULT_CONFIG.git.retryDelay,
+      sparseCheckout: process.env.GIT_SPARSE_CHECKOUT === 'true'
+    },
+    source: {
+      mode: (process.env.DOCS_SOURCE as DocsSourceMode) || DEFAULT_CONFIG.source.mode,
+      localPath: process.env.DOCS_LOCAL_PATH || DEFAULT_CONFIG.source.localPath,
+      snapshotPath: process.env.DOCS_SNAPSHOT_PATH || DEFAULT_CONFIG.source.snapshotPath
     },
     search: {
       maxResults: parseInt(process.env.SEARCH_MAX_RESULTS || '') || DEFAULT_CONFIG.search.maxResults,
       snippetLength: parseInt(process.env.SEARCH_SNIPPET_LENGTH || '') || DEFAULT_CONFIG.search.snippetLength,
       minScore: parseFloat(process.env.SEARCH_MIN_SCORE || '') || DEFAULT_CONFIG.search.minScore
     },
+    cache: {
+      enabled: process.env.INDEX_CACHE_ENABLED !== 'false',
+      // Kept next to the repository checkout so they share a volume
+      path: process.env.INDEX_CACHE_PATH || path.join(path.dirname(localPath), 'index-cache')
+    },
     logging: {
       level: (process.env.LOG_LEVEL as LogLevel) || DEFAULT_CONFIG.logging.level,
       format: (process.env.LOG_FORMAT as 'json' | 'text') || DEFAULT_CONFIG.logging.format
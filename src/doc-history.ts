@@ -0,0 +1,68 @@
+/**
+ * MCP Klipper Documentation Server - Document History
+ * Reads the commits behind a document and the last change to each of its sections
+ */
+
+import { ParsedDocument, DocHistory } from './types.js';
+import { GitSync, gitSync } from './git-sync.js';
+import { NotFoundError } from './errors.js';
+import { rankSuggestions } from './suggest.js';
+
+const DOCS_DIRECTORY = 'docs';
+const DEFAULT_LIMIT = 10;
+
+export interface DocHistoryOptions {
+  limit?: number;
+  /** Heading anchor of the section to report the last change of */
+  anchor?: string;
+  /** Commit the document was parsed from (default: the tracked branch) */
+  commit?: string;
+}
+
+export class DocHistoryReader {
+  constructor(private git: GitSync = gitSync) {}
+
+  async getHistory(doc: ParsedDocument, options: DocHistoryOptions = {}): Promise<DocHistory> {
+    const filePath = `${DOCS_DIRECTORY}/${doc.filePath.replace(/\\/g, '/')}`;
+    const commits = await this.git.getFileHistory(filePath, options.limit || DEFAULT_LIMIT, options.commit);
+
+    const history: DocHistory = { document: doc.id, filePath, commits };
+    if (options.anchor) {
+      const section = this.findSectionLines(doc, options.anchor);
+      const range = await this.git.getLastChange(filePath, section.startLine, section.endLine, options.commit);
+      history.section = { anchor: section.anchor, heading: section.heading, ...range };
+    }
+    return history;
+  }
+
+  /**
+   * Line range of a section: from its heading to the line before the next
+   * heading of the same or a higher level, so subsections are included
+   */
+  findSectionLines(doc: ParsedDocument, anchor: string): { anchor: string; heading: string; startLine: number; endLine?: number } {
+    const key = anchor.replace(/^#/, '').toLowerCase();
+    const headings = (doc.nodes || []).filter(node => node.type === 'heading');
+    const index = headings.findIndex(node => node.anchor === key);
+    const heading = headings[index];
+
+    if (!heading?.anchor || !heading.line) {
+      const suggestions = rankSuggestions(key, headings.map(node => node.anchor || ''));
+      throw new NotFoundError(`Section not found in ${doc.id}: ${anchor}`, 'DocHistoryReader', {
+        document: doc.id,
+        anchor,
+        suggestions
+      });
+    }
+
+    const next = headings.slice(index + 1).find(node => (node.depth || 1) <= (heading.depth || 1));
+    return {
+      anchor: heading.anchor,
+      heading: heading.text,
+      startLine: heading.line,
+      // The last section runs to the end of the file
+      endLine: next?.line ? next.line - 1 : undefined
+    };
+  }
+}
+
+export const docHistoryReader = new DocHistoryReader();
@@ -0,0 +1,207 @@
+/**
+ * MCP Klipper Documentation Server - Docs Changes
+ * Compares the documentation between two commits, heading by heading
+ */
+
+import { DocChange, DocSectionDiff, DocsChangeReport, GitFileChange } from './types.js';
+import { DocumentParser, documentId } from './parser.js';
+import { GitSync, gitSync, scopeChanges } from './git-sync.js';
+import { ValidationError } from './errors.js';
+import { logger } from './logger.js';
+
+const DOCS_DIRECTORY = 'docs';
+const MAX_DIFF_LINES = 40; // per document
+const MAX_LINE_LENGTH = 200;
+// Beyond this many line pairs a section is reported as rewritten instead of diffed
+const MAX_DIFF_CELLS = 250000;
+
+export interface DocsChangeOptions {
+  /** Commit, tag or branch to compare from */
+  from?: string;
+  /** Compare from the last commit before this date instead */
+  since?: Date;
+  /** Commit, tag or branch to compare to (default: the checkout) */
+  to?: string;
+}
+
+interface Section {
+  anchor: string;
+  lines: string[];
+}
+
+export class DocsChangeTracker {
+  private parser = new DocumentParser();
+
+  constructor(private git: GitSync = gitSync) {}
+
+  /**
+   * List the docs changed between two commits with their added, removed
+   * and modified headings and a condensed diff of the prose
+   */
+  async compare(options: DocsChangeOptions): Promise<DocsChangeReport> {
+    if (!options.from && !options.since) {
+      throw new ValidationError('Either "from" or "since" is required', 'DocsChangeTracker.compare');
+    }
+
+    const to = await this.git.resolveCommit(options.to || 'HEAD');
+    const from = options.since
+      ? await this.git.findCommitBefore(options.since)
+      : await this.git.resolveCommit(options.from || '');
+
+    const changes = scopeChanges(await this.git.getChangedFiles(from, to), DOCS_DIRECTORY)
+      .filter(change => change.path.endsWith('.md'));
+
+    const documents: DocChange[] = [];
+    for (const change of changes) {
+      const before = change.status === 'added'
+        ? undefined
+        : await this.git.readFileAt(from, `${DOCS_DIRECTORY}/${change.previousPath || change.path}`);
+      const after = change.status === 'deleted'
+        ? undefined
+        : await this.git.readFileAt(to, `${DOCS_DIRECTORY}/${change.path}`);
+      documents.push(this.diffDocument(change, before, after));
+    }
+
+    logger.info(`Compared docs ${from}..${to}: ${documents.length} documents changed`, 'DocsChangeTracker');
+
+    return {
+      from,
+      to,
+      since: options.since?.toISOString(),
+      documents
+    };
+  }
+
+  /**
+   * Compare two versions of a document. Sections are matched by their
+   * heading path, so a moved heading shows up as removed and added.
+   */
+  diffDocument(change: GitFileChange, before = '', after = ''): DocChange {
+    const oldSections = this.splitSections(before);
+    const newSections = this.splitSections(after);
+
+    const modifiedHeadings: string[] = [];
+    const diff: DocSectionDiff[] = [];
+    let remaining = MAX_DIFF_LINES;
+    let omittedLines = 0;
+
+    newSections.forEach((section, heading) => {
+      const previous = oldSections.get(heading);
+      if (!previous) {
+        return;
+      }
+
+      const lines = this.diffLines(previous.lines, section.lines);
+      if (lines.length === 0) {
+        return;
+      }
+
+      if (heading) {
+        modifiedHeadings.push(heading);
+      }
+      const shown = lines.slice(0, remaining);
+      remaining -= shown.length;
+      omittedLines += lines.length - shown.length;
+      if (shown.length > 0) {
+        diff.push({ heading, anchor: section.anchor, lines: shown });
+      }
+    });
+
+    return {
+      id: documentId(change.path),
+      path: change.path,
+      status: change.status,
+      ...(change.previousPath ? { previousPath: change.previousPath } : {}),
+      addedHeadings: Array.from(newSections.keys()).filter(heading => heading && !oldSections.has(heading)),
+      removedHeadings: Array.from(oldSections.keys()).filter(heading => heading && !newSections.has(heading)),
+      modifiedHeadings,
+      diff,
+      omittedLines
+    };
+  }
+
+  /**
+   * Prose lines of each section keyed by heading path; text before the
+   * first heading is keyed by the empty string. Code blocks are left out.
+   */
+  private splitSections(content: string): Map<string, Section> {
+    const sections = new Map<string, Section>();
+    if (!content) {
+      return sections;
+    }
+
+    const nodes = this.parser.parseMarkdown(content).filter(node => node.type !== 'code');
+    this.parser.extractChunks(nodes).forEach(chunk => {
+      let heading = chunk.headingPath.join(' > ');
+      // Repeated headings such as "Example" under the same parent
+      for (let count = 2; sections.has(heading); count++) {
+        heading = `${chunk.headingPath.join(' > ')} (${count})`;
+      }
+      sections.set(heading, {
+        anchor: chunk.anchor,
+        lines: chunk.content.split('\n').map(line => line.trim()).filter(Boolean)
+      });
+    });
+
+    return sections;
+  }
+
+  /**
+   * Changed lines in order, prefixed with "- " or "+ ", using a longest
+   * common subsequence over what is left after the common prefix and suffix
+   */
+  private diffLines(before: string[], after: string[]): string[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < before.length - start &&
+      end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    const removed = before.slice(start, before.length - end);
+    const added = after.slice(start, after.length - end);
+    const format = (prefix: string, line: string) =>
+      `${prefix}${line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH - 1)}…` : line}`;
+
+    if (removed.length * added.length > MAX_DIFF_CELLS) {
+      return [...removed.map(line => format('- ', line)), ...added.map(line => format('+ ', line))];
+    }
+
+    // lengths[i][j]: common subsequence length of removed[i..] and added[j..]
+    const width = added.length + 1;
+    const lengths = new Uint32Array((removed.length + 1) * width);
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = removed[i] === added[j]
+          ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lengths[(i + 1) * width + j] ?? 0, lengths[i * width + j + 1] ?? 0);
+      }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < removed.length || j < added.length) {
+      if (i < removed.length && j < added.length && removed[i] === added[j]) {
+        i++;
+        j++;
+      } else if (j >= added.length || (i < removed.length && (lengths[(i + 1) * width + j] ?? 0) >= (lengths[i * width + j + 1] ?? 0))) {
+        lines.push(format('- ', removed[i] ?? ''));
+        i++;
+      } else {
+        lines.push(format('+ ', added[j] ?? ''));
+        j++;
+      }
+    }
+
+    return lines;
+  }
+}
+
+export const docsChangeTracker = new DocsChangeTracker();
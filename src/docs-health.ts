@@ -0,0 +1,217 @@
+/**
+ * MCP Klipper Documentation Server - Docs Health
+ * Checks a parsed documentation corpus for broken links, anchors and structure
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedDocument, DocsHealthIssue, DocsHealthIssueType, DocsHealthReport } from './types.js';
+import { collectLinks, resolveDocumentLink } from './link-graph.js';
+import { logger } from './logger.js';
+
+const EXTERNAL_LINK_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+const HTML_ANCHOR_PATTERN = /\b(?:name|id)\s*=\s*["']([^"']+)["']/g;
+const DEFAULT_ENTRY_DOCUMENT = 'Overview';
+
+export interface DocsHealthOptions {
+  docsPath?: string;
+  entryDocument?: string;
+}
+
+export class DocsHealthChecker {
+  /**
+   * Check every document for broken links and anchors, missing images,
+   * missing H1 headings and duplicate anchors, and find documents that
+   * cannot be reached by following links from the entry document. Image
+   * and non-markdown link targets are only checked when docsPath is given.
+   */
+  check(docs: Map<string, ParsedDocument>, options: DocsHealthOptions = {}): DocsHealthReport {
+    const entryDocument = options.entryDocument || DEFAULT_ENTRY_DOCUMENT;
+    const anchors = new Map<string, Set<string>>();
+    const issues: DocsHealthIssue[] = [];
+
+    docs.forEach(doc => {
+      anchors.set(doc.id, this.collectAnchors(doc, issues));
+    });
+
+    docs.forEach(doc => {
+      if (!(doc.nodes || []).some(node => node.type === 'heading' && node.depth === 1)) {
+        issues.push({
+          type: 'missing-h1',
+          severity: 'error',
+          file: doc.filePath,
+          line: 1,
+          message: 'Document has no top-level "# " heading'
+        });
+      }
+
+      this.checkLinks(doc, docs, anchors, options.docsPath, issues);
+    });
+
+    if (docs.has(entryDocument)) {
+      const reachable = this.findReachable(entryDocument, docs);
+      docs.forEach(doc => {
+        if (reachable.has(doc.id)) return;
+        issues.push({
+          type: 'unreachable',
+          severity: 'warning',
+          file: doc.filePath,
+          message: `Document is not reachable by following links from ${entryDocument}`
+        });
+      });
+    } else {
+      logger.warn(`Entry document ${entryDocument} not found, skipping reachability check`, 'DocsHealthChecker');
+    }
+
+    issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line || 0) - (b.line || 0));
+
+    const summary: Record<DocsHealthIssueType, number> = {
+      'broken-link': 0,
+      'broken-anchor': 0,
+      'missing-image': 0,
+      'missing-h1': 0,
+      'duplicate-anchor': 0,
+      'unreachable': 0
+    };
+    issues.forEach(issue => {
+      summary[issue.type]++;
+    });
+
+    logger.info(`Docs health check found ${issues.length} issues in ${docs.size} documents`, 'DocsHealthChecker');
+
+    return {
+      docsPath: options.docsPath,
+      entryDocument,
+      documents: docs.size,
+      summary,
+      issues
+    };
+  }
+
+  /**
+   * Heading anchors, numbered the way renderers disambiguate repeats
+   * ("usage", "usage-1"), plus explicit HTML anchors
+   */
+  private collectAnchors(doc: ParsedDocument, issues: DocsHealthIssue[]): Set<string> {
+    const anchors = new Set<string>();
+    const counts = new Map<string, number>();
+
+    for (const node of doc.nodes || []) {
+      if (node.type === 'html') {
+        for (const match of node.text.matchAll(HTML_ANCHOR_PATTERN)) {
+          if (match[1]) anchors.add(match[1]);
+        }
+        continue;
+      }
+      if (node.type !== 'heading' || !node.anchor) continue;
+
+      const count = counts.get(node.anchor) || 0;
+      counts.set(node.anchor, count + 1);
+      anchors.add(count === 0 ? node.anchor : `${node.anchor}-${count}`);
+
+      if (count > 0) {
+        issues.push({
+          type: 'duplicate-anchor',
+          severity: 'warning',
+          file: doc.filePath,
+          line: node.line,
+          target: node.anchor,
+          message: `Heading "${node.text}" repeats the anchor #${node.anchor}`
+        });
+      }
+    }
+
+    return anchors;
+  }
+
+  private checkLinks(
+    doc: ParsedDocument,
+    docs: Map<string, ParsedDocument>,
+    anchors: Map<string, Set<string>>,
+    docsPath: string | undefined,
+    issues: DocsHealthIssue[]
+  ): void {
+    for (const link of collectLinks(doc.nodes || [])) {
+      if (!link.href || EXTERNAL_LINK_PATTERN.test(link.href)) continue;
+
+      const hrefPath = link.href.split('#')[0] || '';
+
+      if (link.image) {
+        if (docsPath && !this.fileExists(docsPath, doc, hrefPath)) {
+          issues.push({
+            type: 'missing-image',
+            severity: 'error',
+            file: doc.filePath,
+            line: link.line,
+            target: link.href,
+            message: `Image "${link.href}" does not exist`
+          });
+        }
+        continue;
+      }
+
+      const resolved = resolveDocumentLink(doc.id, link.href);
+      if (!resolved) continue;
+
+      if (docs.has(resolved.target)) {
+        if (resolved.anchor && !anchors.get(resolved.target)?.has(resolved.anchor)) {
+          issues.push({
+            type: 'broken-anchor',
+            severity: 'error',
+            file: doc.filePath,
+            line: link.line,
+            target: link.href,
+            message: `Anchor #${resolved.anchor} does not exist in ${resolved.target}`
+          });
+        }
+        continue;
+      }
+
+      // Links to other files (configs, scripts) can only be checked on disk
+      const isDocument = hrefPath.endsWith('.md') || !path.extname(hrefPath);
+      if (isDocument || (docsPath && !this.fileExists(docsPath, doc, hrefPath))) {
+        issues.push({
+          type: 'broken-link',
+          severity: 'error',
+          file: doc.filePath,
+          line: link.line,
+          target: link.href,
+          message: `Link target "${link.href}" does not exist`
+        });
+      }
+    }
+  }
+
+  private fileExists(docsPath: string, doc: ParsedDocument, href: string): boolean {
+    let relative = href;
+    try {
+      relative = decodeURIComponent(href);
+    } catch {
+      // Keep the raw href when it is not valid percent-encoding
+    }
+    return fs.existsSync(path.join(docsPath, path.dirname(doc.filePath), relative));
+  }
+
+  private findReachable(entryDocument: string, docs: Map<string, ParsedDocument>): Set<string> {
+    const reachable = new Set<string>([entryDocument]);
+    const queue = [entryDocument];
+
+    while (queue.length > 0) {
+      const id = queue.shift() || '';
+      const doc = docs.get(id);
+      if (!doc) continue;
+
+      for (const link of collectLinks(doc.nodes || [])) {
+        const target = link.image ? undefined : resolveDocumentLink(id, link.href)?.target;
+        if (target && docs.has(target) && !reachable.has(target)) {
+          reachable.add(target);
+          queue.push(target);
+        }
+      }
+    }
+
+    return reachable;
+  }
+}
+
+export const docsHealthChecker = new DocsHealthChecker();
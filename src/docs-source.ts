@@ -0,0 +1,233 @@
+/**
+ * MCP Klipper Documentation Server - Docs Sources
+ * Offline alternatives to the git clone: a local directory or a snapshot tarball
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DocsVersion, GitSyncResult, SnapshotManifest, SourceConfig } from './types.js';
+import { gitSync } from './git-sync.js';
+import { DocumentParser, PARSER_VERSION } from './parser.js';
+import { DocTaxonomy } from './taxonomy.js';
+import { SearchEngine } from './search.js';
+import { IndexCache } from './index-cache.js';
+import { NotFoundError, ParsingError } from './errors.js';
+import { logger } from './logger.js';
+import { config } from './config.js';
+
+const execFileAsync = promisify(execFile);
+
+const SNAPSHOT_MANIFEST = 'snapshot.json';
+const SNAPSHOT_CACHE_DIRECTORY = 'index-cache';
+
+/**
+ * Where the server reads docs from. GitSync is the default source; the
+ * others never touch the network.
+ */
+export interface DocsSource {
+  getVersions(): DocsVersion[];
+  getDefaultVersion(): DocsVersion;
+  /** Bring a version up to date; lastCommit identifies its contents for the index cache */
+  syncVersion(version: DocsVersion): Promise<GitSyncResult>;
+  getDocsPath(version?: DocsVersion): string;
+  getConfigPath(version?: DocsVersion): string;
+  /** Index cache shipped with the source instead of the configured one */
+  getCachePath?(): string;
+}
+
+/**
+ * Reads docs from a directory without any git operations. The directory is
+ * either a Klipper checkout (with docs/ and config/) or a docs folder.
+ */
+export class LocalDocsSource implements DocsSource {
+  private lastCommit?: string;
+
+  constructor(protected root: string, private name = 'local') {}
+
+  getVersions(): DocsVersion[] {
+    return [{ name: this.name, ref: this.root, path: this.root }];
+  }
+
+  getDefaultVersion(): DocsVersion {
+    return { name: this.name, ref: this.root, path: this.root };
+  }
+
+  /**
+   * There is no commit, so the contents are fingerprinted from file sizes
+   * and modification times; an unchanged directory reuses the cached index
+   */
+  async syncVersion(): Promise<GitSyncResult> {
+    const docsPath = this.getDocsPath();
+    if (!fs.existsSync(docsPath)) {
+      throw new NotFoundError(`Docs directory not found: ${docsPath}`, 'LocalDocsSource.syncVersion', { path: docsPath });
+    }
+
+    const previousCommit = this.lastCommit;
+    const hash = createHash('sha1');
+    for (const directory of [docsPath, this.getConfigPath()]) {
+      await this.fingerprint(directory, '', hash);
+    }
+    this.lastCommit = `local-${hash.digest('hex').slice(0, 12)}`;
+
+    logger.info(`Using local docs from ${docsPath} (${this.lastCommit})`, 'LocalDocsSource');
+    return {
+      success: true,
+      filesChanged: previousCommit === this.lastCommit ? [] : undefined,
+      previousCommit,
+      lastCommit: this.lastCommit,
+      timestamp: new Date()
+    };
+  }
+
+  getDocsPath(): string {
+    const docsPath = path.join(this.root, 'docs');
+    return fs.existsSync(docsPath) ? docsPath : this.root;
+  }
+
+  getConfigPath(): string {
+    return path.join(this.root, 'config');
+  }
+
+  private async fingerprint(directory: string, relativePath: string, hash: ReturnType<typeof createHash>): Promise<void> {
+    const fullPath = path.join(directory, relativePath);
+    if (!fs.existsSync(fullPath)) {
+      return;
+    }
+
+    const entries = await fs.promises.readdir(fullPath, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+
+      const entryPath = path.join(relativePath, entry.name);
+      if (entry.isDirectory()) {
+        await this.fingerprint(directory, entryPath, hash);
+      } else if (entry.isFile()) {
+        const stats = await fs.promises.stat(path.join(directory, entryPath));
+        hash.update(`${entryPath}:${stats.size}:${stats.mtimeMs}\n`);
+      }
+    }
+  }
+}
+
+/**
+ * Serves a tarball built with `--build-snapshot`: the docs, example configs
+ * and a prebuilt index, unpacked once at startup
+ */
+export class SnapshotDocsSource extends LocalDocsSource {
+  private manifest?: SnapshotManifest;
+
+  constructor(private snapshotPath: string, extractPath: string) {
+    super(extractPath, 'snapshot');
+  }
+
+  async syncVersion(): Promise<GitSyncResult> {
+    const previousCommit = this.manifest?.commit;
+    if (!this.manifest) {
+      this.manifest = await extractSnapshot(this.snapshotPath, this.root);
+    }
+
+    return {
+      success: true,
+      filesChanged: previousCommit ? [] : undefined,
+      previousCommit,
+      lastCommit: this.manifest.commit,
+      timestamp: new Date()
+    };
+  }
+
+  getCachePath(): string {
+    return path.join(this.root, SNAPSHOT_CACHE_DIRECTORY);
+  }
+}
+
+/**
+ * Unpack a snapshot tarball into a clean directory and read its manifest
+ */
+export async function extractSnapshot(snapshotPath: string, extractPath: string): Promise<SnapshotManifest> {
+  if (!fs.existsSync(snapshotPath)) {
+    throw new NotFoundError(`Docs snapshot not found: ${snapshotPath}`, 'extractSnapshot', { path: snapshotPath });
+  }
+
+  fs.rmSync(extractPath, { recursive: true, force: true });
+  fs.mkdirSync(extractPath, { recursive: true });
+  await execFileAsync('tar', ['-xzf', path.resolve(snapshotPath), '-C', extractPath]);
+
+  const manifestPath = path.join(extractPath, SNAPSHOT_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    throw new ParsingError(`Not a docs snapshot, ${SNAPSHOT_MANIFEST} is missing: ${snapshotPath}`, 'extractSnapshot');
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as SnapshotManifest;
+  if (manifest.parserVersion !== PARSER_VERSION) {
+    logger.warn('Docs snapshot was built by another parser version, its index will be rebuilt', 'extractSnapshot');
+  }
+
+  logger.info(`Extracted docs snapshot of ${manifest.commit} built ${manifest.createdAt}`, 'extractSnapshot');
+  return manifest;
+}
+
+/**
+ * Sync a source, parse and index its default version and pack the docs,
+ * example configs and index into a tarball that SnapshotDocsSource can serve
+ */
+export async function buildSnapshot(source: DocsSource, outputFile: string): Promise<SnapshotManifest> {
+  const version = source.getDefaultVersion();
+  const { lastCommit } = await source.syncVersion(version);
+  const docsPath = source.getDocsPath(version);
+  const configPath = source.getConfigPath(version);
+
+  // Same steps as the server, so the cached documents carry their taxonomy sections
+  const docs = await new DocumentParser().parseDirectory(docsPath);
+  new DocTaxonomy().build(docs);
+  const engine = new SearchEngine();
+  engine.buildIndex(docs);
+  const index = engine.getSerializedIndex();
+  if (!index) {
+    throw new ParsingError('Failed to build the search index', 'buildSnapshot');
+  }
+
+  const manifest: SnapshotManifest = {
+    commit: lastCommit,
+    parserVersion: PARSER_VERSION,
+    createdAt: new Date().toISOString()
+  };
+
+  const staging = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-snapshot-'));
+  try {
+    fs.cpSync(docsPath, path.join(staging, 'docs'), { recursive: true });
+    if (fs.existsSync(configPath)) {
+      fs.cpSync(configPath, path.join(staging, 'config'), { recursive: true });
+    }
+    new IndexCache(path.join(staging, SNAPSHOT_CACHE_DIRECTORY), true).save(lastCommit, docs, index);
+    fs.writeFileSync(path.join(staging, SNAPSHOT_MANIFEST), JSON.stringify(manifest, null, 2));
+
+    fs.mkdirSync(path.dirname(path.resolve(outputFile)), { recursive: true });
+    await execFileAsync('tar', ['-czf', path.resolve(outputFile), '-C', staging, '.']);
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+
+  logger.info(`Built docs snapshot ${outputFile} (${docs.size} documents, commit ${lastCommit})`, 'buildSnapshot');
+  return manifest;
+}
+
+export function createDocsSource(sourceConfig: SourceConfig = config.source): DocsSource {
+  switch (sourceConfig.mode) {
+    case 'local':
+      return new LocalDocsSource(sourceConfig.localPath);
+    case 'snapshot':
+      // Unpacked next to where the repository would be cloned
+      return new SnapshotDocsSource(sourceConfig.snapshotPath, path.join(path.dirname(config.git.localPath), 'snapshot'));
+    case 'git':
+      return gitSync;
+    default:
+      logger.warn(`Unknown DOCS_SOURCE "${String(sourceConfig.mode)}", using git`, 'DocsSource');
+      return gitSync;
+  }
+}
+
+export const docsSource = createDocsSource();
@@ -95,10 +95,13 @@ export function handleError(error: unknown, context: string): KlipperError {
   return new KlipperError(message, ErrorType.SYSTEM, context);
 }
 
-export function formatErrorResponse(error: KlipperError): { error: string; message: string; type: string } {
+export function formatErrorResponse(
+  error: KlipperError
+): { error: string; message: string; type: string; details?: Record<string, unknown> } {
   return {
     error: error.context,
     message: error.message,
-    type: error.type
+    type: error.type,
+    ...(error.details ? { details: error.details } : {})
   };
 }
@@ -0,0 +1,194 @@
+/**
+ * MCP Klipper Documentation Server - Example Configs
+ * Indexes the printer-*, generic-* and sample-* configs from Klipper's config/ directory
+ */
+
+import lunr from 'lunr';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExampleConfig, ExampleConfigFilter, ExampleConfigKind } from './types.js';
+import { SearchError, handleError } from './errors.js';
+import { logger } from './logger.js';
+
+const FILE_PATTERN = /^(printer|generic|sample)-(.+)\.cfg$/;
+const MCU_PATTERN = /\b(stm32[a-z]\d{3}\w*|gd32[a-z]\d{3}\w*|hc32f\d{3}\w*|atmega\d+\w*|at90usb\d+\w*|lpc17\d\d|sam\d[a-z]\d\w*|sam[a-z]\d{2}\w*|rp2040|pru)\b/i;
+const SUBJECT_PATTERN = /pin mappings for (?:the )?(?:stock )?(.+?)(?:\.\s|\.$|\s\(|$)/i;
+const BOARD_PATTERN = /\b(?:uses|has|with)\s+(?:an?\s+|the\s+)?(?:stock\s+)?((?:[\w.+-]+\s+){0,3}?[\w.+-]+)\s+(?:main)?board\b/i;
+const DEFAULT_LIMIT = 20;
+
+export class ExampleConfigIndex {
+  private configs: Map<string, ExampleConfig> = new Map();
+  private index: lunr.Index | null = null;
+
+  /**
+   * Load and index every example config in the given directory. Older
+   * checkouts without a config/ directory simply yield an empty corpus.
+   */
+  loadDirectory(configPath: string): Map<string, ExampleConfig> {
+    this.configs.clear();
+
+    if (!fs.existsSync(configPath)) {
+      logger.warn(`Example config directory not found: ${configPath}`, 'ExampleConfigIndex');
+      this.buildIndex();
+      return this.configs;
+    }
+
+    for (const fileName of fs.readdirSync(configPath).sort()) {
+      if (!FILE_PATTERN.test(fileName)) continue;
+
+      try {
+        const content = fs.readFileSync(path.join(configPath, fileName), 'utf-8');
+        this.addConfig(fileName, content);
+      } catch (error) {
+        logger.warn(`Failed to read example config: ${fileName}`, 'ExampleConfigIndex', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.buildIndex();
+    logger.info(`Indexed ${this.configs.size} example configs`, 'ExampleConfigIndex');
+    return this.configs;
+  }
+
+  /**
+   * Parse one config file. Vendor, model and year come from the file name
+   * (e.g. "printer-creality-ender3-v2-2020.cfg"), the MCU and board from the
+   * header comments.
+   */
+  addConfig(fileName: string, content: string): ExampleConfig | undefined {
+    const fileMatch = FILE_PATTERN.exec(fileName);
+    if (!fileMatch || !fileMatch[1] || !fileMatch[2]) {
+      return undefined;
+    }
+
+    const kind = fileMatch[1] as ExampleConfigKind;
+    const parts = fileMatch[2].split('-');
+    const id = fileName.replace(/\.cfg$/, '');
+    const header = this.extractHeader(content);
+
+    let year: number | undefined;
+    const last = parts[parts.length - 1] || '';
+    if (kind === 'printer' && /^(19|20)\d{2}$/.test(last) && parts.length > 1) {
+      year = parseInt(last, 10);
+      parts.pop();
+    }
+
+    const vendor = kind !== 'sample' && parts.length > 1 ? parts.shift() : undefined;
+    const model = parts.join('-') || undefined;
+
+    const description = (/^(.+?\.)(?:\s|$)/.exec(header)?.[1] || header).trim();
+    const subject = SUBJECT_PATTERN.exec(header)?.[1]?.trim();
+    const board = kind === 'printer' ? BOARD_PATTERN.exec(header)?.[1]?.trim() : subject;
+
+    const config: ExampleConfig = {
+      id,
+      kind,
+      filePath: `config/${fileName}`,
+      vendor,
+      model,
+      year,
+      mcu: MCU_PATTERN.exec(header)?.[1],
+      board,
+      description,
+      sections: Array.from(content.matchAll(/^\[([^\]]+)\]/gm), match => (match[1] || '').trim()),
+      content
+    };
+
+    this.configs.set(id, config);
+    return config;
+  }
+
+  private extractHeader(content: string): string {
+    const lines: string[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('[')) break;
+      if (trimmed.startsWith('#')) {
+        lines.push(trimmed.replace(/^#+\s?/, ''));
+      }
+    }
+
+    return lines.join(' ').replace(/\s+/g, ' ').trim();
+  }
+
+  buildIndex(): void {
+    try {
+      const configs = Array.from(this.configs.values());
+
+      this.index = lunr(function () {
+        this.ref('id');
+        this.field('id', { boost: 10 });
+        this.field('vendor', { boost: 5 });
+        this.field('model', { boost: 5 });
+        this.field('board', { boost: 5 });
+        this.field('mcu', { boost: 3 });
+        this.field('description');
+        this.field('sections');
+
+        configs.forEach(config => {
+          this.add({
+            id: config.id,
+            vendor: config.vendor || '',
+            model: (config.model || '').replace(/-/g, ' '),
+            board: config.board || '',
+            mcu: config.mcu || '',
+            description: config.description,
+            sections: config.sections.join(' ')
+          });
+        });
+      });
+    } catch (error) {
+      throw handleError(error, 'ExampleConfigIndex.buildIndex');
+    }
+  }
+
+  /**
+   * Filter the corpus by metadata, ranked by the free-text query when given
+   */
+  find(filter: ExampleConfigFilter = {}): ExampleConfig[] {
+    const limit = filter.limit || DEFAULT_LIMIT;
+    let candidates: ExampleConfig[];
+
+    if (filter.query) {
+      if (!this.index) {
+        throw new SearchError('Example config index not initialized', 'ExampleConfigIndex.find');
+      }
+      candidates = this.index.search(filter.query)
+        .map(result => this.configs.get(result.ref))
+        .filter((config): config is ExampleConfig => config !== undefined);
+    } else {
+      candidates = this.getAllConfigs();
+    }
+
+    const contains = (value: string | undefined, expected: string | undefined) =>
+      !expected || (value || '').toLowerCase().includes(expected.toLowerCase());
+
+    return candidates
+      .filter(config =>
+        (!filter.kind || config.kind === filter.kind) &&
+        (!filter.year || config.year === filter.year) &&
+        contains(config.vendor, filter.vendor) &&
+        contains(config.model, filter.model) &&
+        contains(config.mcu, filter.mcu) &&
+        contains(config.board, filter.board)
+      )
+      .slice(0, limit);
+  }
+
+  getConfig(id: string): ExampleConfig | undefined {
+    return this.configs.get(id.replace(/\.cfg$/, ''));
+  }
+
+  getAllConfigs(): ExampleConfig[] {
+    return Array.from(this.configs.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  clear(): void {
+    this.configs.clear();
+    this.index = null;
+  }
+}
+
+export const exampleConfigs = new ExampleConfigIndex();
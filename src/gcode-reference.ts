@@ -0,0 +1,211 @@
+/**
+ * MCP Klipper Documentation Server - G-Code Reference
+ * Extracts individual command definitions from G-Codes.md
+ */
+
+import { ParsedDocument, GCodeCommand, GCodeParameter } from './types.js';
+import { createAnchor } from './parser.js';
+import { closestMatches } from './suggest.js';
+import { logger } from './logger.js';
+
+interface GroupContext {
+  name: string;
+  anchor: string;
+  configSection?: string;
+}
+
+interface PendingCommand {
+  name: string;
+  anchor: string;
+  group: GroupContext;
+  body: string[];
+}
+
+const HEADING_PATTERN = /^(#{2,6})\s+(.+)$/;
+const COMMAND_NAME_PATTERN = /^[A-Z][A-Z0-9_]+$/;
+const PARAMETER_PATTERN = /([A-Z][A-Z0-9_]*|<[a-z_]+>)=(<[^>]*>|[^\s\]]+)|\b([A-Z])(<[^>]+>)/g;
+
+export class GCodeReference {
+  private commands: Map<string, GCodeCommand> = new Map();
+
+  parse(doc: ParsedDocument): Map<string, GCodeCommand> {
+    this.commands.clear();
+
+    let group: GroupContext = { name: doc.title, anchor: '' };
+    let command: PendingCommand | null = null;
+    let listItem: string[] = [];
+    let inFence = false;
+
+    const flushListItem = () => {
+      if (listItem.length > 0) {
+        this.addListCommands(listItem.join(' '), group);
+        listItem = [];
+      }
+    };
+
+    for (const line of doc.content.split('\n')) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      const headingMatch = HEADING_PATTERN.exec(line);
+      if (headingMatch && headingMatch[1] && headingMatch[2]) {
+        flushListItem();
+        if (command) {
+          this.addCommand(command);
+          command = null;
+        }
+
+        const level = headingMatch[1].length;
+        const text = headingMatch[2].trim();
+
+        if (level <= 3) {
+          const bracketMatch = /^\[([^\]]+)\]/.exec(text);
+          group = {
+            name: text,
+            anchor: createAnchor(text),
+            configSection: bracketMatch && bracketMatch[1] ? bracketMatch[1].trim() : undefined
+          };
+        } else if (COMMAND_NAME_PATTERN.test(text)) {
+          command = { name: text, anchor: createAnchor(text), group, body: [] };
+        }
+        continue;
+      }
+
+      if (command) {
+        command.body.push(trimmed);
+        continue;
+      }
+
+      // Commands documented as list items, e.g. "- Dwell: `G4 P<milliseconds>`"
+      if (/^[-*]\s+/.test(trimmed)) {
+        flushListItem();
+        listItem = [trimmed.replace(/^[-*]\s+/, '')];
+      } else if (!trimmed) {
+        flushListItem();
+      } else if (listItem.length > 0) {
+        listItem.push(trimmed);
+      }
+    }
+
+    flushListItem();
+    if (command) {
+      this.addCommand(command);
+    }
+
+    logger.info(`Extracted ${this.commands.size} G-Code commands`, 'GCodeReference');
+    return this.commands;
+  }
+
+  private addCommand(pending: PendingCommand): void {
+    const text = pending.body.join(' ').replace(/\s+/g, ' ').trim();
+    const usage = this.extractSpans(text).filter(span => span.split(/\s+/)[0] === pending.name);
+
+    // The description follows the leading usage span, e.g. "`CMD [X=<v>]`: Does things"
+    const description = text.replace(/^`[^`]+`(\s*or\s*`[^`]+`)*\s*:?\s*/, '');
+
+    this.commands.set(pending.name, {
+      name: pending.name,
+      usage: usage.length > 0 ? usage : [pending.name],
+      parameters: this.parseParameters(usage),
+      configSection: pending.group.configSection,
+      group: pending.group.name,
+      anchor: pending.anchor,
+      description
+    });
+  }
+
+  private addListCommands(item: string, group: GroupContext): void {
+    const spans = this.extractSpans(item);
+    const firstSpan = spans[0];
+    if (!firstSpan) return;
+
+    const spanIndex = item.indexOf('`');
+    const label = item.slice(0, spanIndex).replace(/:\s*$/, '').trim();
+    const afterSpans = item.replace(/^[^`]*(`[^`]+`(\s*or\s*)?)+\s*:?\s*/, '').trim();
+    const description = [label, afterSpans].filter(Boolean).join(': ');
+
+    // Aliases are listed in the label, e.g. "Move (G0 or G1)"
+    const names = new Set<string>();
+    spans.forEach(span => names.add(span.split(/\s+/)[0] || ''));
+    (label.match(/\b[GM]\d+\b/g) || []).forEach(name => names.add(name));
+
+    names.forEach(name => {
+      if (!COMMAND_NAME_PATTERN.test(name) || this.commands.has(name)) return;
+
+      const usage = spans.filter(span => span.split(/\s+/)[0] === name);
+      const effectiveUsage = usage.length > 0 ? usage : [firstSpan];
+      this.commands.set(name, {
+        name,
+        usage: effectiveUsage,
+        parameters: this.parseParameters(effectiveUsage),
+        configSection: group.configSection,
+        group: group.name,
+        anchor: group.anchor,
+        description
+      });
+    });
+  }
+
+  private extractSpans(text: string): string[] {
+    return Array.from(text.matchAll(/`([^`]+)`/g), match => (match[1] || '').trim()).filter(Boolean);
+  }
+
+  private parseParameters(usages: string[]): GCodeParameter[] {
+    const parameters: Map<string, GCodeParameter> = new Map();
+
+    for (const usage of usages) {
+      for (const match of usage.matchAll(PARAMETER_PATTERN)) {
+        const name = match[1] || match[3];
+        const value = match[2] || match[4] || '';
+        if (!name || parameters.has(name)) continue;
+
+        // Parameters inside square brackets are optional
+        const before = usage.slice(0, match.index);
+        const depth = (before.match(/\[/g) || []).length - (before.match(/\]/g) || []).length;
+        parameters.set(name, { name, value, optional: depth > 0 });
+      }
+    }
+
+    return Array.from(parameters.values());
+  }
+
+  getCommand(name: string): GCodeCommand | undefined {
+    return this.commands.get(name.trim().toUpperCase());
+  }
+
+  /**
+   * List commands by name prefix, name component or enabling config section,
+   * e.g. "TMC" matches SET_TMC_CURRENT and everything from [tmcXXXX]
+   */
+  findCommands(query: string): GCodeCommand[] {
+    const key = query.trim().toUpperCase().replace(/\*$/, '');
+    if (!key) {
+      return this.getAllCommands();
+    }
+
+    return this.getAllCommands().filter(command =>
+      command.name.startsWith(key) ||
+      command.name.split('_').includes(key) ||
+      (command.configSection !== undefined && command.configSection.toUpperCase().startsWith(key))
+    );
+  }
+
+  suggestCommands(query: string, limit = 5): string[] {
+    return closestMatches(query.trim().toUpperCase(), Array.from(this.commands.keys()), { limit });
+  }
+
+  getAllCommands(): GCodeCommand[] {
+    return Array.from(this.commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  clear(): void {
+    this.commands.clear();
+  }
+}
+
+export const gcodeReference = new GCodeReference();
@@ -6,21 +6,99 @@
 import simpleGit, { SimpleGit, CloneOptions } from 'simple-git';
 import * as fs from 'fs';
 import * as path from 'path';
-import { GitSyncResult } from './types.js';
-import { GitError, handleError } from './errors.js';
+import {
+  DocsVersion,
+  GitBlameRange,
+  GitCommitInfo,
+  GitConfig,
+  GitFileChange,
+  GitFileChangeStatus,
+  GitSyncResult
+} from './types.js';
+import { GitError, ValidationError, handleError } from './errors.js';
 import { logger } from './logger.js';
 import { config } from './config.js';
 
+const CHANGE_STATUSES: Record<string, GitFileChangeStatus> = {
+  A: 'added',
+  C: 'added',
+  M: 'modified',
+  T: 'modified',
+  D: 'deleted',
+  R: 'renamed'
+};
+
+// Directories checked out when sparse checkout is enabled
+const SPARSE_DIRECTORIES = ['docs', 'config'];
+
+const LOCK_RETRY_INTERVAL = 500;
+const LOCK_TIMEOUT = 600000; // 10 minutes
+// Older locks are left over from a crashed sync; no clone takes this long
+const LOCK_STALE_AGE = 3600000; // 1 hour
+const LOCK_UNREADABLE_AGE = 10000;
+
+// History is fetched in steps of this many commits, at most MAX_DEEPEN_STEPS times per request
+const DEEPEN_STEP = 250;
+const MAX_DEEPEN_STEPS = 4;
+
+// Branches, tags, hashes and `git describe` strings with an optional ~N/^N suffix; never an option
+const REF_PATTERN = /^\w[\w./+-]*(?:[~^]\d*)*$/;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Version name for a ref, safe to use in URIs and directory names
+ */
+function versionName(ref: string): string {
+  return ref.replace(/[^\w.-]+/g, '-');
+}
+
+/**
+ * Restrict repository-relative changes to one directory, with paths made
+ * relative to it. Renames across the directory boundary become additions
+ * or deletions.
+ */
+export function scopeChanges(changes: GitFileChange[], directory: string): GitFileChange[] {
+  const prefix = `${directory.replace(/\/+$/, '')}/`;
+  const scope = (file?: string) => (file && file.startsWith(prefix) ? file.slice(prefix.length) : undefined);
+
+  return changes.flatMap((change): GitFileChange[] => {
+    const current = scope(change.path);
+    const previous = scope(change.previousPath);
+
+    if (change.status !== 'renamed') {
+      return current ? [{ status: change.status, path: current }] : [];
+    }
+    if (current && previous) {
+      return [{ status: 'renamed', path: current, previousPath: previous }];
+    }
+    if (current) {
+      return [{ status: 'added', path: current }];
+    }
+    return previous ? [{ status: 'deleted', path: previous }] : [];
+  });
+}
+
 export class GitSync {
   private git: SimpleGit;
   private localPath: string;
   private repository: string;
   private branch: string;
+  private refs: string[];
+  private retries: number;
+  private retryDelay: number;
+  private sparseCheckout: boolean;
 
-  constructor() {
-    this.localPath = config.git.localPath;
-    this.repository = config.git.repository;
-    this.branch = config.git.branch;
+  constructor(gitConfig: GitConfig = config.git) {
+    this.localPath = gitConfig.localPath;
+    this.repository = gitConfig.repository;
+    this.branch = gitConfig.branch;
+    this.refs = gitConfig.refs;
+    this.retries = Math.max(1, gitConfig.retries);
+    this.retryDelay = gitConfig.retryDelay;
+    this.sparseCheckout = gitConfig.sparseCheckout;
     this.git = simpleGit();
   }
 
@@ -28,34 +106,110 @@ export class GitSync {
     logger.info('Initializing Git repository', 'GitSync');
 
     try {
-      // Ensure parent directory exists
-      const parentDir = path.dirname(this.localPath);
-      if (!fs.existsSync(parentDir)) {
-        fs.mkdirSync(parentDir, { recursive: true });
-      }
+      return await this.withLock(() => this.update());
+    } catch (error) {
+      throw handleError(error, 'GitSync.initialize');
+    }
+  }
+
+  /**
+   * Pull the checkout, or clone it when it is missing or fails the
+   * integrity check. Callers hold the checkout lock.
+   */
+  private async update(): Promise<GitSyncResult> {
+    // Ensure parent directory exists
+    const parentDir = path.dirname(this.localPath);
+    if (!fs.existsSync(parentDir)) {
+      fs.mkdirSync(parentDir, { recursive: true });
+    }
+
+    const state = await this.checkCheckout();
+    if (state === 'valid') {
+      logger.info('Repository exists, pulling latest changes', 'GitSync');
+      return await this.pull();
+    }
+    if (state === 'corrupted') {
+      logger.warn('Repository checkout is corrupted, cloning it again', 'GitSync');
+      fs.rmSync(this.localPath, { recursive: true, force: true });
+    } else if (state === 'empty') {
+      fs.rmdirSync(this.localPath);
+    }
 
-      // Check if repository already exists
-      if (fs.existsSync(path.join(this.localPath, '.git'))) {
-        logger.info('Repository exists, pulling latest changes', 'GitSync');
-        return await this.pull();
-      } else {
-        logger.info('Cloning repository', 'GitSync');
-        return await this.clone();
+    logger.info('Cloning repository', 'GitSync');
+    return await this.clone();
+  }
+
+  /**
+   * State of the checkout directory. Only a repository of its own (not a
+   * directory inside another one) that fails fsck counts as corrupted and
+   * may be deleted; a directory that is not a checkout, or one git refuses
+   * to read (e.g. "dubious ownership"), is left alone and reported.
+   */
+  private async checkCheckout(): Promise<'missing' | 'empty' | 'valid' | 'corrupted'> {
+    if (!fs.existsSync(this.localPath)) {
+      return 'missing';
+    }
+    if (!fs.existsSync(path.join(this.localPath, '.git'))) {
+      if (fs.readdirSync(this.localPath).length === 0) {
+        return 'empty';
       }
+      throw new GitError(`${this.localPath} exists and is not a git checkout`, 'GitSync.checkCheckout', {
+        localPath: this.localPath
+      });
+    }
+
+    const git = simpleGit(this.localPath);
+    let topLevel: string;
+    try {
+      topLevel = (await git.revparse(['--show-toplevel'])).trim();
     } catch (error) {
-      throw handleError(error, 'GitSync.initialize');
+      throw new GitError(
+        `Cannot read the checkout at ${this.localPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.checkCheckout',
+        { localPath: this.localPath }
+      );
     }
+    if (path.resolve(topLevel) !== fs.realpathSync(this.localPath)) {
+      throw new GitError(`${this.localPath} is inside the repository ${topLevel}`, 'GitSync.checkCheckout', {
+        localPath: this.localPath
+      });
+    }
+
+    try {
+      await git.raw(['fsck', '--connectivity-only', '--no-dangling', '--no-progress']);
+    } catch (error) {
+      logger.debug('Repository integrity check failed', 'GitSync', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return 'corrupted';
+    }
+    return 'valid';
   }
 
   private async clone(): Promise<GitSyncResult> {
+    // Cloned next to the checkout and moved into place, so an interrupted clone never looks like one
+    const clonePath = `${this.localPath}.clone-${process.pid}`;
+
     try {
       const cloneOptions: CloneOptions = {
         '--branch': this.branch,
         '--depth': 1,
         '--single-branch': null
       };
+      if (this.sparseCheckout) {
+        // Only the blobs of the checked out directories are downloaded
+        cloneOptions['--filter'] = 'blob:none';
+        cloneOptions['--sparse'] = null;
+      }
 
-      await this.git.clone(this.repository, this.localPath, cloneOptions);
+      await this.withRetries('clone', async () => {
+        fs.rmSync(clonePath, { recursive: true, force: true });
+        await simpleGit().clone(this.repository, clonePath, cloneOptions);
+        if (this.sparseCheckout) {
+          await simpleGit(clonePath).raw(['sparse-checkout', 'set', ...SPARSE_DIRECTORIES]);
+        }
+      });
+      fs.renameSync(clonePath, this.localPath);
 
       // Initialize git in the cloned directory
       this.git = simpleGit(this.localPath);
@@ -67,11 +221,11 @@ export class GitSync {
 
       return {
         success: true,
-        filesChanged: -1, // Unknown for initial clone
         lastCommit,
         timestamp: new Date()
       };
     } catch (error) {
+      fs.rmSync(clonePath, { recursive: true, force: true });
       throw new GitError(
         `Failed to clone repository: ${error instanceof Error ? error.message : String(error)}`,
         'GitSync.clone',
@@ -80,22 +234,29 @@ export class GitSync {
     }
   }
 
-  async pull(): Promise<GitSyncResult> {
+  private async pull(): Promise<GitSyncResult> {
     try {
       this.git = simpleGit(this.localPath);
 
+      const previousLog = await this.git.log({ maxCount: 1 }).catch(() => undefined);
+      const previousCommit = previousLog?.latest?.hash;
+
       // Fetch and reset to ensure clean state
-      await this.git.fetch(['origin', this.branch]);
+      await this.withRetries('fetch', () => this.git.fetch(['origin', this.branch]));
       await this.git.reset(['--hard', `origin/${this.branch}`]);
+      await this.applySparseCheckout(this.git);
 
       const log = await this.git.log({ maxCount: 1 });
       const lastCommit = log.latest?.hash || 'unknown';
 
-      logger.info(`Repository updated. Latest commit: ${lastCommit}`, 'GitSync');
+      const filesChanged = await this.diffSince(previousCommit, lastCommit);
+      const changeSummary = filesChanged ? ` (${filesChanged.length} files changed)` : '';
+      logger.info(`Repository updated. Latest commit: ${lastCommit}${changeSummary}`, 'GitSync');
 
       return {
         success: true,
-        filesChanged: 0, // Could track this with diff
+        filesChanged,
+        previousCommit,
         lastCommit,
         timestamp: new Date()
       };
@@ -108,18 +269,254 @@ export class GitSync {
     }
   }
 
+  /**
+   * Match a checkout to the sparse checkout setting, including checkouts
+   * made before it was changed
+   */
+  private async applySparseCheckout(git: SimpleGit): Promise<void> {
+    if (this.sparseCheckout) {
+      await this.withRetries('sparse checkout', () => git.raw(['sparse-checkout', 'set', ...SPARSE_DIRECTORIES]));
+      return;
+    }
+
+    const sparse = await git.raw(['config', '--bool', 'core.sparseCheckout']).catch(() => '');
+    if (sparse.trim() === 'true') {
+      await this.withRetries('sparse checkout', () => git.raw(['sparse-checkout', 'disable']));
+    }
+  }
+
+  /**
+   * Run a network operation, retrying failures with exponential backoff
+   */
+  private async withRetries<T>(operation: string, task: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= this.retries) {
+          throw error;
+        }
+        const wait = this.retryDelay * 2 ** (attempt - 1);
+        logger.warn(`Git ${operation} failed (attempt ${attempt} of ${this.retries}), retrying in ${wait}ms`, 'GitSync', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        await delay(wait);
+      }
+    }
+  }
+
+  /**
+   * Run a task holding a lock file next to the checkout, so server instances
+   * sharing it never clone or update it at the same time. Locks left by
+   * processes that are gone, or older than any sync takes, are taken over.
+   */
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.localPath}.lock`;
+    const started = Date.now();
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, createdAt: new Date().toISOString() }), { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (this.isStaleLock(lockPath)) {
+        logger.warn(`Taking over stale lock ${lockPath}`, 'GitSync');
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT) {
+        throw new GitError(`Timed out waiting for the checkout lock ${lockPath}`, 'GitSync.withLock', { lockPath });
+      }
+      await delay(LOCK_RETRY_INTERVAL);
+    }
+
+    try {
+      return await task();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  private isStaleLock(lockPath: string): boolean {
+    let owner: { pid?: number; createdAt?: string };
+    try {
+      owner = JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as { pid?: number; createdAt?: string };
+    } catch {
+      // Being written right now, or left unreadable by a crash
+      return fs.existsSync(lockPath) && Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_UNREADABLE_AGE;
+    }
+
+    if (!owner.pid || Date.now() - new Date(owner.createdAt || 0).getTime() > LOCK_STALE_AGE) {
+      return true;
+    }
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      // EPERM: it exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code !== 'EPERM';
+    }
+  }
+
+  /**
+   * The versions to serve: one per configured ref, or just the tracked
+   * branch. The branch is served from the main clone, other refs from
+   * worktrees sharing its object store.
+   */
+  getVersions(): DocsVersion[] {
+    const refs = this.refs.length > 0 ? Array.from(new Set(this.refs)) : [this.branch];
+    return refs.map(ref => ({
+      name: versionName(ref),
+      ref,
+      path: ref === this.branch ? this.localPath : path.join(path.dirname(this.localPath), 'klipper-versions', versionName(ref))
+    }));
+  }
+
+  getDefaultVersion(): DocsVersion {
+    const [version] = this.getVersions();
+    if (!version) {
+      throw new GitError('No versions configured', 'GitSync.getDefaultVersion');
+    }
+    return version;
+  }
+
+  /**
+   * Bring one version's checkout up to date. Refs other than the tracked
+   * branch are fetched into the main clone and checked out in their own
+   * worktree; pinned tags and commits only change when the ref is moved.
+   */
+  async syncVersion(version: DocsVersion): Promise<GitSyncResult> {
+    if (version.path === this.localPath) {
+      return this.initialize();
+    }
+
+    try {
+      return await this.withLock(async () => {
+        if (await this.checkCheckout() !== 'valid') {
+          await this.update();
+        }
+        this.git = simpleGit(this.localPath);
+
+        await this.withRetries('fetch', () => this.git.fetch(['--depth', '1', 'origin', version.ref]));
+        // Annotated tags resolve to the tag object, so peel to the commit
+        const lastCommit = (await this.git.revparse(['FETCH_HEAD^{commit}'])).trim();
+
+        // Worktrees break when the main clone is cloned again
+        let previousCommit: string | undefined;
+        if (fs.existsSync(path.join(version.path, '.git'))) {
+          previousCommit = await simpleGit(version.path).revparse(['HEAD']).then(hash => hash.trim(), () => undefined);
+          if (!previousCommit) {
+            logger.warn(`Worktree for version ${version.name} is broken, recreating it`, 'GitSync');
+          }
+        }
+
+        const worktree = previousCommit ? simpleGit(version.path) : undefined;
+        if (worktree) {
+          if (previousCommit !== lastCommit) {
+            await worktree.checkout(['--detach', '--force', lastCommit]);
+          }
+          await this.applySparseCheckout(worktree);
+        } else {
+          fs.rmSync(version.path, { recursive: true, force: true });
+          fs.mkdirSync(path.dirname(version.path), { recursive: true });
+          await this.git.raw(['worktree', 'prune']);
+          await this.git.raw(['worktree', 'add', '--detach', '--force', version.path, lastCommit]);
+          await this.applySparseCheckout(simpleGit(version.path));
+        }
+
+        const filesChanged = await this.diffSince(previousCommit, lastCommit);
+        logger.info(`Version ${version.name} at commit ${lastCommit}`, 'GitSync');
+
+        return {
+          success: true,
+          filesChanged,
+          previousCommit,
+          lastCommit,
+          timestamp: new Date()
+        };
+      });
+    } catch (error) {
+      throw new GitError(
+        `Failed to sync version ${version.name}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.syncVersion',
+        { repository: this.repository, ref: version.ref }
+      );
+    }
+  }
+
+  /**
+   * Changes from the previous checkout, or undefined when there was none
+   * or the diff is unavailable
+   */
+  private async diffSince(previousCommit: string | undefined, lastCommit: string): Promise<GitFileChange[] | undefined> {
+    if (!previousCommit) {
+      return undefined;
+    }
+    if (previousCommit === lastCommit) {
+      return [];
+    }
+
+    try {
+      return await this.getChangedFiles(previousCommit, lastCommit);
+    } catch (error) {
+      logger.warn(`Could not diff ${previousCommit}..${lastCommit}, changes unknown`, 'GitSync', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Files added, modified, deleted or renamed between two commits,
+   * with paths relative to the repository root
+   */
+  async getChangedFiles(from: string, to: string): Promise<GitFileChange[]> {
+    try {
+      const output = await simpleGit(this.localPath).raw(['diff', '--name-status', '-M', '--end-of-options', from, to]);
+
+      return output.split('\n').flatMap((line): GitFileChange[] => {
+        const [code = '', first, second] = line.split('\t');
+        const status = CHANGE_STATUSES[code.charAt(0)];
+        if (!status || !first) {
+          return [];
+        }
+        // Copies keep their source, so only the new path matters
+        if (code.startsWith('C')) {
+          return second ? [{ status, path: second }] : [];
+        }
+        return second ? [{ status, path: second, previousPath: first }] : [{ status, path: first }];
+      });
+    } catch (error) {
+      throw new GitError(
+        `Failed to diff ${from}..${to}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.getChangedFiles',
+        { from, to }
+      );
+    }
+  }
+
   getLocalPath(): string {
     return this.localPath;
   }
 
-  getDocsPath(): string {
-    return path.join(this.localPath, 'docs');
+  getDocsPath(version: DocsVersion = this.getDefaultVersion()): string {
+    return path.join(version.path, 'docs');
+  }
+
+  getConfigPath(version: DocsVersion = this.getDefaultVersion()): string {
+    return path.join(version.path, 'config');
   }
 
   async getLastCommitInfo(): Promise<{ hash: string; date: Date; message: string }> {
     try {
-      this.git = simpleGit(this.localPath);
-      const log = await this.git.log({ maxCount: 1 });
+      const log = await simpleGit(this.localPath).log({ maxCount: 1 });
 
       if (!log.latest) {
         throw new GitError('No commits found', 'GitSync.getLastCommitInfo');
@@ -134,6 +531,233 @@ export class GitSync {
       throw handleError(error, 'GitSync.getLastCommitInfo');
     }
   }
+
+  /**
+   * Recent commits touching a file up to a commit (the tracked branch by
+   * default), newest first, following renames. The shallow clone is deepened
+   * until enough commits are found.
+   */
+  async getFileHistory(filePath: string, limit: number, commit = 'HEAD'): Promise<GitCommitInfo[]> {
+    try {
+      const git = simpleGit(this.localPath);
+
+      let commits = await this.logFile(git, commit, filePath, limit);
+      for (let step = 0; step < MAX_DEEPEN_STEPS && commits.length < limit && await this.deepen(git, commit); step++) {
+        commits = await this.logFile(git, commit, filePath, limit);
+      }
+      return commits;
+    } catch (error) {
+      throw new GitError(
+        `Failed to read history of ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.getFileHistory',
+        { filePath }
+      );
+    }
+  }
+
+  /**
+   * The most recent commit that changed a range of lines (1-based,
+   * inclusive; without an end line up to the end of the file) in the file as
+   * of a commit (the tracked branch by default). When every line dates from
+   * the oldest commit of the shallow clone, more history is fetched first.
+   */
+  async getLastChange(filePath: string, startLine: number, endLine?: number, commit = 'HEAD'): Promise<GitBlameRange> {
+    try {
+      const git = simpleGit(this.localPath);
+
+      let range = await this.blameRange(git, commit, filePath, startLine, endLine);
+      for (let step = 0; step < MAX_DEEPEN_STEPS && range.historyTruncated && await this.deepen(git, commit); step++) {
+        range = await this.blameRange(git, commit, filePath, startLine, endLine);
+      }
+      return range;
+    } catch (error) {
+      throw new GitError(
+        `Failed to blame ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.getLastChange',
+        { filePath, startLine, endLine }
+      );
+    }
+  }
+
+  private async logFile(git: SimpleGit, commit: string, filePath: string, limit: number): Promise<GitCommitInfo[]> {
+    const output = await git.raw([
+      'log', `--max-count=${limit}`, '--follow', '--format=%H%x1f%aI%x1f%an%x1f%s%x1e', '--end-of-options', commit, '--', filePath
+    ]);
+
+    return output.split('\x1e').flatMap((record): GitCommitInfo[] => {
+      const [hash, date, author = '', subject = ''] = record.trim().split('\x1f');
+      return hash && date ? [{ hash, date: new Date(date), author, subject }] : [];
+    });
+  }
+
+  /**
+   * Parse `git blame --porcelain`: each line starts with a header naming its
+   * commit, and the first line of every commit is followed by its details
+   */
+  private async blameRange(git: SimpleGit, commit: string, filePath: string, startLine: number, endLine?: number): Promise<GitBlameRange> {
+    const output = await git.raw(['blame', '--porcelain', '-L', `${startLine},${endLine ?? ''}`, commit, '--', filePath]);
+
+    const commits = new Map<string, { author: string; time: number; subject: string; boundary: boolean }>();
+    const lineCommits: string[] = [];
+    let current: string | undefined;
+
+    for (const line of output.split('\n')) {
+      const header = /^([0-9a-f]{40}) \d+ \d+/.exec(line);
+      if (header?.[1]) {
+        current = header[1];
+        lineCommits.push(current);
+        if (!commits.has(current)) {
+          commits.set(current, { author: '', time: 0, subject: '', boundary: false });
+        }
+        continue;
+      }
+
+      const commit = current ? commits.get(current) : undefined;
+      if (!commit || line.startsWith('\t')) continue;
+
+      const [key = '', ...rest] = line.split(' ');
+      const value = rest.join(' ');
+      if (key === 'author') commit.author = value;
+      else if (key === 'author-time') commit.time = parseInt(value, 10);
+      else if (key === 'summary') commit.subject = value;
+      else if (key === 'boundary') commit.boundary = true;
+    }
+
+    let latest: string | undefined;
+    lineCommits.forEach(hash => {
+      if (!latest || (commits.get(hash)?.time ?? 0) > (commits.get(latest)?.time ?? 0)) {
+        latest = hash;
+      }
+    });
+
+    const info = latest ? commits.get(latest) : undefined;
+    if (!latest || !info) {
+      throw new GitError(`No blame output from line ${startLine}`, 'GitSync.blameRange', { filePath });
+    }
+
+    return {
+      startLine,
+      endLine: startLine + lineCommits.length - 1,
+      lastChanged: { hash: latest, date: new Date(info.time * 1000), author: info.author, subject: info.subject },
+      // A boundary commit stands in for all history the shallow clone lacks
+      historyTruncated: info.boundary && await this.isShallow(git)
+    };
+  }
+
+  private async isShallow(git: SimpleGit): Promise<boolean> {
+    return (await git.revparse(['--is-shallow-repository'])).trim() === 'true';
+  }
+
+  /**
+   * Fetch more history of a commit (the tracked branch for HEAD) into the
+   * shallow clone. Returns false when the clone already has the full history.
+   */
+  private async deepen(git: SimpleGit, commit: string): Promise<boolean> {
+    if (!(await this.isShallow(git))) {
+      return false;
+    }
+    logger.debug(`Fetching ${DEEPEN_STEP} more commits of history`, 'GitSync');
+    const target = commit === 'HEAD' ? this.branch : commit;
+    // The shallow list is shared with syncs, so fetch under the checkout lock
+    await this.withLock(() => git.fetch([`--deepen=${DEEPEN_STEP}`, '--end-of-options', 'origin', target]));
+    return true;
+  }
+
+  /**
+   * Resolve a commit hash, branch, tag or `git describe` string
+   * (e.g. "v0.12.0-85-gd785b396") to a full commit hash. The clone is
+   * shallow, so unknown refs are fetched first.
+   */
+  async resolveCommit(ref: string): Promise<string> {
+    const trimmed = ref.trim();
+    if (!REF_PATTERN.test(trimmed) || trimmed.includes('..')) {
+      throw new ValidationError(`Not a commit, tag or branch name: ${ref}`, 'GitSync.resolveCommit', { ref });
+    }
+    const describeMatch = /-g([0-9a-f]{7,40})$/i.exec(trimmed);
+    const target = describeMatch && describeMatch[1] ? describeMatch[1] : trimmed;
+
+    try {
+      const git = simpleGit(this.localPath);
+
+      // Exits non-zero without output when the ref is unknown
+      const local = await git.revparse(['--verify', '--quiet', '--end-of-options', `${target}^{commit}`]).catch(() => '');
+      if (local.trim()) {
+        return local.trim();
+      }
+
+      logger.debug(`Commit ${target} not in local clone, fetching`, 'GitSync');
+      // FETCH_HEAD and the shallow list are shared with version syncs
+      return await this.withLock(async () => {
+        await git.fetch(['--depth', '1', '--end-of-options', 'origin', target]);
+        return (await git.revparse(['FETCH_HEAD^{commit}'])).trim();
+      });
+    } catch (error) {
+      throw new GitError(
+        `Could not resolve ${ref}: ${error instanceof Error ? error.message : String(error)}`,
+        'GitSync.resolveCommit',
+        { ref }
+      );
+    }
+  }
+
+  /**
+   * The last commit on the tracked branch made before a date. History older
+   * than the shallow clone is fetched up to the date, plus the one commit
+   * before it.
+   */
+  async findCommitBefore(date: Date): Promise<string> {
+    const before = `--before=${date.toISOString()}`;
+
+    try {
+      const git = simpleGit(this.localPath);
+
+      let commit = (await git.raw(['rev-list', '-1', before, 'HEAD'])).trim();
+      if (!commit) {
+        logger.debug(`Fetching history since ${date.toISOString()}`, 'GitSync');
+        await this.withLock(async () => {
+          await git.fetch([`--shallow-since=${date.toISOString()}`, 'origin', this.branch]);
+          await git.fetch(['--deepen=1', 'origin', this.branch]);
+        });
+        commit = (await git.raw(['rev-list', '-1', before, 'HEAD'])).trim();
+      }
+
+      if (!commit) {
+        throw new GitError(`No commit found before ${date.toISOString()}`, 'GitSync.findCommitBefore');
+      }
+      return commit;
+    } catch (error) {
+      throw handleError(error, 'GitSync.findCommitBefore');
+    }
+  }
+
+  /**
+   * Contents of a file at a commit, or undefined when it does not exist there
+   */
+  async readFileAt(commit: string, filePath: string): Promise<string | undefined> {
+    try {
+      return await simpleGit(this.localPath).show([`${commit}:${filePath}`]);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve a commit hash, tag or `git describe` string to its commit date
+   */
+  async getCommitDate(ref: string): Promise<Date> {
+    try {
+      const commit = await this.resolveCommit(ref);
+      const output = await simpleGit(this.localPath).raw(['show', '-s', '--format=%cI', commit]);
+
+      const date = new Date(output.trim());
+      if (isNaN(date.getTime())) {
+        throw new GitError(`Could not read commit date for ${ref}`, 'GitSync.getCommitDate', { ref });
+      }
+      return date;
+    } catch (error) {
+      throw handleError(error, 'GitSync.getCommitDate');
+    }
+  }
 }
 
 export const gitSync = new GitSync();
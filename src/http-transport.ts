@@ -0,0 +1,246 @@
+/**
+ * MCP Klipper Documentation Server - HTTP Transport
+ * Serves MCP over Streamable HTTP with one server instance per client session
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const SESSION_HEADER = 'mcp-session-id';
+// Printer configs with their includes fit comfortably
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const IDLE_CHECK_INTERVAL = 60000;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must send; no check when empty */
+  authToken?: string;
+  /** Builds the MCP server for a new session; sessions share the index */
+  createServer: () => Server;
+  /** Whether the index is built, reported by the health endpoint */
+  isReady: () => boolean;
+  /** Sessions open at once; unlimited when 0 or omitted */
+  maxSessions?: number;
+  /** Milliseconds without requests after which a session is closed; never when 0 or omitted */
+  sessionIdleTimeout?: number;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+  lastActivity: number;
+}
+
+export class HttpTransportServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, Session>();
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(private options: HttpTransportOptions) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error('Failed to handle HTTP request', 'HttpTransport', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        if (!res.headersSent) {
+          this.sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { sessionIdleTimeout } = this.options;
+    if (sessionIdleTimeout) {
+      this.idleTimer = setInterval(() => {
+        this.closeIdleSessions().catch(error => {
+          logger.warn('Failed to close idle sessions', 'HttpTransport', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      }, Math.min(sessionIdleTimeout, IDLE_CHECK_INTERVAL));
+      this.idleTimer.unref();
+    }
+
+    const address = this.httpServer.address() as AddressInfo;
+    const auth = this.options.authToken ? 'with' : 'without';
+    logger.info(`Listening on http://${address.address}:${address.port}${MCP_PATH} ${auth} bearer auth`, 'HttpTransport');
+    return address;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.idleTimer);
+    for (const { transport } of Array.from(this.sessions.values())) {
+      await transport.close();
+    }
+    this.sessions.clear();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      const ready = this.options.isReady();
+      this.sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'indexing', ready, sessions: this.sessions.size });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // Only an initialize request may open a session
+    if (req.method !== 'POST') {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await this.readJson(req);
+    } catch (error) {
+      this.sendError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const { maxSessions } = this.options;
+    if (maxSessions && this.sessions.size >= maxSessions) {
+      logger.warn(`Refusing a new session, ${this.sessions.size} already open`, 'HttpTransport');
+      this.sendError(res, 503, -32000, 'Too many sessions, try again later');
+      return;
+    }
+
+    await this.openSession(req, res, body);
+  }
+
+  /**
+   * Close sessions that have had no request for the idle timeout. Sessions
+   * with an open request or event stream are in use and kept.
+   */
+  private async closeIdleSessions(): Promise<void> {
+    const idleSince = Date.now() - (this.options.sessionIdleTimeout || 0);
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      if (session.openRequests === 0 && session.lastActivity < idleSince) {
+        logger.info(`Session ${sessionId} idle since ${new Date(session.lastActivity).toISOString()}, closing it`, 'HttpTransport');
+        this.sessions.delete(sessionId);
+        await session.transport.close();
+      }
+    }
+  }
+
+  private trackRequest(session: Session, res: http.ServerResponse): void {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  private async openSession(req: http.IncomingMessage, res: http.ServerResponse, body: unknown): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, { server, transport, openRequests: 0, lastActivity: Date.now() });
+        logger.info(`Session ${sessionId} opened (${this.sessions.size} active)`, 'HttpTransport');
+      },
+      onsessionclosed: sessionId => {
+        this.sessions.delete(sessionId);
+        logger.info(`Session ${sessionId} closed (${this.sessions.size} active)`, 'HttpTransport');
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const { authToken } = this.options;
+    if (!authToken) {
+      return true;
+    }
+
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const actual = Buffer.from(req.headers.authorization || '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      const buffer = chunk as Buffer;
+      size += buffer.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new Error(`request body exceeds ${MAX_BODY_SIZE} bytes`);
+      }
+      chunks.push(buffer);
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as unknown;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+}
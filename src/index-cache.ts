@@ -0,0 +1,96 @@
+/**
+ * MCP Klipper Documentation Server - Index Cache
+ * Persists the parsed documents and search index between runs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CachedIndex, ParsedDocument } from './types.js';
+import { PARSER_VERSION } from './parser.js';
+import { logger } from './logger.js';
+import { config } from './config.js';
+
+const CACHE_FILE = 'index.json';
+
+export class IndexCache {
+  private cachePath: string;
+  private enabled: boolean;
+
+  constructor(cachePath = config.cache.path, enabled = config.cache.enabled) {
+    this.cachePath = cachePath;
+    this.enabled = enabled;
+  }
+
+  /**
+   * Read the cache written by a previous run. Returns undefined when there
+   * is none, it cannot be read or it was written by another parser version;
+   * callers compare the commit with the checkout.
+   */
+  load(): CachedIndex | undefined {
+    const file = path.join(this.cachePath, CACHE_FILE);
+    if (!this.enabled || !fs.existsSync(file)) {
+      return undefined;
+    }
+
+    try {
+      const cached = JSON.parse(fs.readFileSync(file, 'utf-8')) as CachedIndex;
+      if (cached.parserVersion !== PARSER_VERSION || !cached.commit || !Array.isArray(cached.documents)) {
+        logger.info('Index cache is from another parser version, ignoring it', 'IndexCache');
+        return undefined;
+      }
+
+      // Dates do not survive JSON
+      cached.documents.forEach(doc => {
+        doc.lastModified = new Date(doc.lastModified);
+      });
+
+      logger.info(`Loaded index cache for commit ${cached.commit} (${cached.documents.length} documents)`, 'IndexCache');
+      return cached;
+    } catch (error) {
+      logger.warn('Failed to read index cache, ignoring it', 'IndexCache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace the cache with the documents and serialized index of a commit.
+   * The file is written under a temporary name and renamed into place, so an
+   * interrupted write never leaves a truncated cache behind.
+   */
+  save(commit: string, documents: Map<string, ParsedDocument>, index: object): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const cached: CachedIndex = {
+      parserVersion: PARSER_VERSION,
+      commit,
+      createdAt: new Date().toISOString(),
+      documents: Array.from(documents.values()),
+      index
+    };
+
+    const file = path.join(this.cachePath, CACHE_FILE);
+    const tempFile = `${file}.${process.pid}.tmp`;
+
+    try {
+      fs.mkdirSync(this.cachePath, { recursive: true });
+      fs.writeFileSync(tempFile, JSON.stringify(cached));
+      fs.renameSync(tempFile, file);
+      logger.info(`Saved index cache for commit ${commit}`, 'IndexCache');
+    } catch (error) {
+      fs.rmSync(tempFile, { force: true });
+      logger.warn('Failed to write index cache', 'IndexCache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  clear(): void {
+    fs.rmSync(path.join(this.cachePath, CACHE_FILE), { force: true });
+  }
+}
+
+export const indexCache = new IndexCache();
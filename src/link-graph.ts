@@ -0,0 +1,149 @@
+/**
+ * MCP Klipper Documentation Server - Link Graph
+ * Builds the graph of links between documents and ranks related documents
+ */
+
+import * as path from 'path';
+import { ParsedDocument, DocumentNode, DocumentLink, DocumentLinkEdge, RelatedDocument } from './types.js';
+import { logger } from './logger.js';
+
+const EXTERNAL_LINK_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+const LINK_WEIGHT = 3;
+const BACKLINK_WEIGHT = 2;
+const SHARED_TAG_WEIGHT = 0.5;
+const DEFAULT_RELATED_LIMIT = 10;
+
+/**
+ * Every link in a node tree, in document order
+ */
+export function collectLinks(nodes: DocumentNode[]): DocumentLink[] {
+  return nodes.flatMap(node => [...(node.links || []), ...collectLinks(node.children || [])]);
+}
+
+/**
+ * Resolve a markdown link relative to the linking document. Returns the
+ * target document ID (".md" stripped) and anchor, or undefined for
+ * external links.
+ */
+export function resolveDocumentLink(sourceId: string, href: string): { target: string; anchor?: string } | undefined {
+  if (!href || EXTERNAL_LINK_PATTERN.test(href)) {
+    return undefined;
+  }
+
+  const [rawPath = '', rawAnchor] = href.split('#');
+  const anchor = rawAnchor ? safeDecode(rawAnchor) : undefined;
+
+  // "#anchor" links stay within the source document
+  if (!rawPath) {
+    return { target: sourceId, anchor };
+  }
+
+  const relative = safeDecode(rawPath).replace(/\\/g, '/');
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(sourceId), relative)).replace(/\.md$/, '');
+  return { target, anchor };
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export class LinkGraph {
+  private outgoing: Map<string, DocumentLinkEdge[]> = new Map();
+  private incoming: Map<string, DocumentLinkEdge[]> = new Map();
+  private docs: Map<string, ParsedDocument> = new Map();
+
+  /**
+   * Build the graph from the parsed documents' links and fill each
+   * document's relatedDocuments
+   */
+  build(docs: Map<string, ParsedDocument>): void {
+    this.docs = docs;
+    this.outgoing.clear();
+    this.incoming.clear();
+
+    let edgeCount = 0;
+    docs.forEach(doc => {
+      const edges: DocumentLinkEdge[] = [];
+
+      for (const link of collectLinks(doc.nodes || [])) {
+        if (link.image) continue;
+        const resolved = resolveDocumentLink(doc.id, link.href);
+        if (!resolved || resolved.target === doc.id || !docs.has(resolved.target)) continue;
+
+        const edge: DocumentLinkEdge = { source: doc.id, target: resolved.target, anchor: resolved.anchor, text: link.text };
+        edges.push(edge);
+        this.incoming.set(resolved.target, [...(this.incoming.get(resolved.target) || []), edge]);
+      }
+
+      this.outgoing.set(doc.id, edges);
+      edgeCount += edges.length;
+    });
+
+    docs.forEach(doc => {
+      doc.metadata.relatedDocuments = this.getRelated(doc.id).map(related => related.id);
+    });
+
+    logger.info(`Built link graph with ${edgeCount} links between ${docs.size} documents`, 'LinkGraph');
+  }
+
+  getOutgoing(id: string): DocumentLinkEdge[] {
+    return this.outgoing.get(id) || [];
+  }
+
+  getBacklinks(id: string): DocumentLinkEdge[] {
+    return this.incoming.get(id) || [];
+  }
+
+  /**
+   * Rank other documents by outgoing links, backlinks and shared tags.
+   * Tags are a weak signal and are weighted well below links.
+   */
+  getRelated(id: string, limit = DEFAULT_RELATED_LIMIT): RelatedDocument[] {
+    const doc = this.docs.get(id);
+    if (!doc) {
+      return [];
+    }
+
+    const linksTo = new Set(this.getOutgoing(id).map(edge => edge.target));
+    const linkedFrom = new Set(this.getBacklinks(id).map(edge => edge.source));
+    const tags = new Set(doc.metadata.tags);
+    const related: RelatedDocument[] = [];
+
+    this.docs.forEach(other => {
+      if (other.id === id) return;
+
+      const sharedTags = other.metadata.tags.filter(tag => tags.has(tag));
+      const score =
+        (linksTo.has(other.id) ? LINK_WEIGHT : 0) +
+        (linkedFrom.has(other.id) ? BACKLINK_WEIGHT : 0) +
+        sharedTags.length * SHARED_TAG_WEIGHT;
+
+      if (score === 0) return;
+
+      related.push({
+        id: other.id,
+        title: other.title,
+        score,
+        linksTo: linksTo.has(other.id),
+        linkedFrom: linkedFrom.has(other.id),
+        sharedTags
+      });
+    });
+
+    return related
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+
+  clear(): void {
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.docs = new Map();
+  }
+}
+
+export const linkGraph = new LinkGraph();
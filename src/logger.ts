@@ -30,6 +30,10 @@ class Logger {
     this.format = config.logging.format;
   }
 
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
   private shouldLog(level: LogLevel): boolean {
     return LOG_LEVEL_PRIORITY[level] <= LOG_LEVEL_PRIORITY[this.level];
   }
@@ -0,0 +1,185 @@
+/**
+ * MCP Klipper Documentation Server - Macro Linter
+ * Checks gcode_macro templates against the Status and G-Code references
+ */
+
+import { MacroFinding, MacroLintReport } from './types.js';
+import { StatusReference, statusReference } from './status-reference.js';
+import { GCodeReference, gcodeReference } from './gcode-reference.js';
+import { configFileParser } from './config-file.js';
+import { ValidationError } from './errors.js';
+import { logger } from './logger.js';
+
+interface BodyLine {
+  text: string;
+  line: number;
+}
+
+const MACRO_FILE = 'macro.cfg';
+const PRINTER_REFERENCE_PATTERN = /\bprinter((?:\.[A-Za-z_]\w*|\[\s*(["'])[^"'\]]+\2\s*\])+)/g;
+const PARAM_PATTERN = /\bparams(?:\.([A-Za-z_]\w*)|\[\s*(["'])([^"'\]]+)\2\s*\])/g;
+const COMMAND_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)/;
+
+export class MacroLinter {
+  constructor(
+    private status: StatusReference = statusReference,
+    private gcodes: GCodeReference = gcodeReference
+  ) {}
+
+  lint(text: string, knownCommands: string[] = []): MacroLintReport[] {
+    const config = configFileParser.parse(MACRO_FILE, { [MACRO_FILE]: text });
+    const macros = config.sections.filter(section => /^gcode_macro\s+\S/.test(section.name));
+
+    if (macros.length === 0) {
+      throw new ValidationError('No [gcode_macro ...] section found', 'MacroLinter.lint');
+    }
+
+    // Macros defined alongside each other, and the commands they rename, are valid calls
+    const known = new Set(knownCommands.map(command => command.toUpperCase()));
+    macros.forEach(section => {
+      known.add((section.name.split(/\s+/)[1] || '').toUpperCase());
+      const renamed = section.options.rename_existing?.value;
+      if (renamed) {
+        known.add(renamed.toUpperCase());
+      }
+    });
+
+    const lines = text.split(/\r?\n/);
+
+    return macros.map(section => {
+      const gcode = section.options.gcode;
+      const body = gcode ? this.extractBody(lines, gcode.line) : [];
+      const findings = [
+        ...this.checkPrinterReferences(body),
+        ...this.checkParams(body),
+        ...this.checkCommands(body, known)
+      ].sort((a, b) => a.line - b.line);
+
+      logger.debug(`Linted ${section.name}: ${findings.length} findings`, 'MacroLinter');
+      return { macro: section.name, findings };
+    });
+  }
+
+  private extractBody(lines: string[], optionLine: number): BodyLine[] {
+    const body: BodyLine[] = [];
+    const first = (lines[optionLine - 1] || '').replace(/^[^:=]*[:=]/, '');
+    body.push({ text: first, line: optionLine });
+
+    for (let index = optionLine; index < lines.length; index++) {
+      const text = lines[index] || '';
+      const trimmed = text.trim();
+      // Full-line comments do not end a multi-line value
+      if (trimmed && !/^\s/.test(text) && !/^[#;]/.test(trimmed)) break;
+      body.push({ text, line: index + 1 });
+    }
+
+    return body;
+  }
+
+  private checkPrinterReferences(body: BodyLine[]): MacroFinding[] {
+    const findings: MacroFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const { text, line } of body) {
+      for (const match of text.matchAll(PRINTER_REFERENCE_PATTERN)) {
+        const reference = match[0];
+        if (seen.has(reference)) continue;
+        seen.add(reference);
+
+        const lookup = this.status.resolve(reference);
+        if (!lookup) {
+          findings.push({
+            type: 'unknown-status-object',
+            severity: 'error',
+            line,
+            reference,
+            message: `"${reference}" refers to a status object that is not documented in Status_Reference`,
+            suggestions: this.status.suggestObjects(reference)
+          });
+        } else if (lookup.path && !lookup.attribute) {
+          findings.push({
+            type: 'unknown-status-attribute',
+            severity: 'warning',
+            line,
+            reference,
+            message: `"${lookup.path}" is not a documented attribute of the "${lookup.object.name}" status object`,
+            suggestions: lookup.object.attributes.map(attribute => attribute.name).slice(0, 10)
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private checkParams(body: BodyLine[]): MacroFinding[] {
+    const fullText = body.map(({ text }) => text).join('\n');
+    const findings: MacroFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const { text, line } of body) {
+      for (const match of text.matchAll(PARAM_PATTERN)) {
+        const name = match[1] || match[3] || '';
+        if (!name || seen.has(name)) continue;
+        seen.add(name);
+
+        if (!this.hasDefault(fullText, name)) {
+          findings.push({
+            type: 'param-without-default',
+            severity: 'warning',
+            line,
+            reference: `params.${name}`,
+            message: `params.${name} is used without a default; the macro fails when ${name} is not passed`,
+            suggestions: [`params.${name}|default(...)`]
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private hasDefault(text: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const reference = `params(?:\\.${escaped}\\b|\\[\\s*["']${escaped}["']\\s*\\])`;
+
+    return [
+      new RegExp(`${reference}\\s*\\|\\s*(?:default|d)\\s*\\(`),
+      new RegExp(`${reference}\\s+is\\s+defined`),
+      new RegExp(`["']${escaped}["']\\s+(?:not\\s+)?in\\s+params\\b`)
+    ].some(pattern => pattern.test(text));
+  }
+
+  private checkCommands(body: BodyLine[], known: Set<string>): MacroFinding[] {
+    const findings: MacroFinding[] = [];
+
+    // Blank out Jinja comments and statements, keeping line breaks so line numbers hold
+    const rendered = body
+      .map(({ text }) => text)
+      .join('\n')
+      .replace(/\{#[\s\S]*?#\}|\{%[\s\S]*?%\}/g, block => block.replace(/[^\n]/g, ''))
+      .split('\n');
+
+    rendered.forEach((text, index) => {
+      const trimmed = text.trim();
+      const match = COMMAND_PATTERN.exec(trimmed);
+      if (!match || !match[1]) return;
+
+      const command = match[1].toUpperCase();
+      if (known.has(command) || this.gcodes.getCommand(command)) return;
+
+      findings.push({
+        type: 'unknown-command',
+        severity: 'warning',
+        line: body[index]?.line || 0,
+        reference: command,
+        message: `"${command}" is not documented in the G-Code reference and is not a known macro`,
+        suggestions: this.gcodes.suggestCommands(command, 3)
+      });
+    });
+
+    return findings;
+  }
+}
+
+export const macroLinter = new MacroLinter();
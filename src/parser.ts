@@ -5,12 +5,62 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { marked } from 'marked';
+import { marked, Token, Tokens } from 'marked';
 import matter from 'gray-matter';
-import { ParsedDocument, DocumentMetadata, DocumentHeading } from './types.js';
+import {
+  ParsedDocument,
+  DocumentMetadata,
+  DocumentHeading,
+  DocumentChunk,
+  DocumentNode,
+  DocumentLink,
+  GitFileChange
+} from './types.js';
 import { ParsingError, handleError } from './errors.js';
 import { logger } from './logger.js';
 
+/**
+ * Convert heading text into the anchor used for in-page links
+ */
+export function createAnchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Bump whenever the shape or content of ParsedDocument changes, so cached
+ * parses from older versions are discarded
+ */
+export const PARSER_VERSION = 2;
+
+const EXCLUDED_DIRECTORIES = ['scripts', 'klippy', 'lib'];
+
+function isExcludedDirectory(name: string): boolean {
+  return name.startsWith('.') || EXCLUDED_DIRECTORIES.includes(name);
+}
+
+/**
+ * Document ID for a path relative to the docs directory
+ */
+export function documentId(relativePath: string): string {
+  return relativePath.replace(/\\/g, '/').replace('.md', '');
+}
+
+function countNewlines(text: string): number {
+  return (text.match(/\n/g) || []).length;
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 export class DocumentParser {
   private docs: Map<string, ParsedDocument> = new Map();
 
@@ -31,6 +81,34 @@ export class DocumentParser {
     }
   }
 
+  /**
+   * Re-parse only the documents touched by a git diff and drop deleted ones,
+   * keeping the cached parses of everything else. Change paths are relative
+   * to the docs directory.
+   */
+  async applyChanges(docsPath: string, changes: GitFileChange[]): Promise<Map<string, ParsedDocument>> {
+    let applied = 0;
+
+    for (const change of changes) {
+      if (change.previousPath && this.docs.delete(documentId(change.previousPath))) {
+        applied++;
+      }
+
+      const directories = change.path.split('/').slice(0, -1);
+      if (!change.path.endsWith('.md') || directories.some(isExcludedDirectory)) continue;
+
+      if (change.status === 'deleted') {
+        this.docs.delete(documentId(change.path));
+      } else {
+        await this.parseFile(path.join(docsPath, change.path), docsPath);
+      }
+      applied++;
+    }
+
+    logger.info(`Applied ${applied} document changes, ${this.docs.size} documents cached`, 'DocumentParser');
+    return this.docs;
+  }
+
   private async processDirectory(currentPath: string, basePath: string): Promise<void> {
     const entries = fs.readdirSync(currentPath, { withFileTypes: true });
 
@@ -39,7 +117,7 @@ export class DocumentParser {
 
       if (entry.isDirectory()) {
         // Skip hidden directories and non-documentation folders
-        if (!entry.name.startsWith('.') && !['scripts', 'klippy', 'lib'].includes(entry.name)) {
+        if (!isExcludedDirectory(entry.name)) {
           await this.processDirectory(fullPath, basePath);
         }
       } else if (entry.isFile() && entry.name.endsWith('.md')) {
@@ -57,30 +135,40 @@ export class DocumentParser {
       // Parse frontmatter if present
       const { data: frontmatter, content: markdownContent } = matter(content);
 
+      // Build the token tree so code fences are never mistaken for headings
+      // Frontmatter is stripped from the content, so offset lines by its length
+      const frontmatterLines = countNewlines(content) - countNewlines(markdownContent);
+      const nodes = this.parseMarkdown(markdownContent, 1 + Math.max(0, frontmatterLines));
+
       // Extract title from first heading or filename
-      const title = this.extractTitle(markdownContent, filePath);
+      const title = this.extractTitle(nodes, filePath);
 
       // Extract section from directory structure
       const section = this.extractSection(relativePath);
 
       // Extract headings for navigation
-      const headings = this.extractHeadings(markdownContent);
+      const headings = this.extractHeadings(nodes);
 
-      // Calculate metadata
-      const metadata = this.calculateMetadata(markdownContent, headings, frontmatter);
+      // Calculate metadata from prose, leaving out code blocks and markup
+      const metadata = this.calculateMetadata(this.extractProse(nodes), headings, frontmatter);
 
       // Create document ID from relative path
-      const id = relativePath.replace(/\\/g, '/').replace('.md', '');
+      const id = documentId(relativePath);
 
+      const subsection = this.extractSubsection(relativePath);
       const doc: ParsedDocument = {
         id,
         title,
         content: markdownContent,
         section,
-        subsection: this.extractSubsection(relativePath),
+        subsection,
+        defaultSection: section,
+        defaultSubsection: subsection,
         filePath: relativePath,
         lastModified: stats.mtime,
-        metadata
+        metadata,
+        nodes,
+        chunks: this.extractChunks(nodes)
       };
 
       this.docs.set(id, doc);
@@ -92,11 +180,11 @@ export class DocumentParser {
     }
   }
 
-  private extractTitle(content: string, filePath: string): string {
+  private extractTitle(nodes: DocumentNode[], filePath: string): string {
     // Try to find first h1 heading
-    const h1Match = content.match(/^#\s+(.+)$/m);
-    if (h1Match && h1Match[1]) {
-      return h1Match[1].trim();
+    const h1 = nodes.find(node => node.type === 'heading' && node.depth === 1);
+    if (h1 && h1.text) {
+      return h1.text;
     }
 
     // Fall back to filename
@@ -164,26 +252,212 @@ export class DocumentParser {
     return undefined;
   }
 
-  private extractHeadings(content: string): DocumentHeading[] {
-    const headings: DocumentHeading[] = [];
-    const headingRegex = /^(#{1,6})\s+(.+)$/gm;
-    let match;
-
-    while ((match = headingRegex.exec(content)) !== null) {
-      const levelMatch = match[1];
-      const textMatch = match[2];
-      if (!levelMatch || !textMatch) continue;
-      const level = levelMatch.length;
-      const text = textMatch.trim();
-      const anchor = text
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, '')
-        .replace(/\s+/g, '-');
-
-      headings.push({ level, text, anchor });
+  private extractHeadings(nodes: DocumentNode[]): DocumentHeading[] {
+    return nodes
+      .filter(node => node.type === 'heading')
+      .map(node => ({ level: node.depth || 1, text: node.text, anchor: node.anchor || createAnchor(node.text) }));
+  }
+
+  /**
+   * Lex markdown with marked and reduce the tokens to a tree of document
+   * nodes holding plain text (inline markup removed), the links they contain
+   * and the source line each starts on
+   */
+  parseMarkdown(content: string, startLine = 1): DocumentNode[] {
+    return this.buildNodes(marked.lexer(content), startLine);
+  }
+
+  private buildNodes(tokens: Token[], startLine: number): DocumentNode[] {
+    const nodes: DocumentNode[] = [];
+    let line = startLine;
+
+    for (const token of tokens) {
+      const tokenLine = line;
+      line += countNewlines(token.raw);
+
+      switch (token.type) {
+        case 'heading': {
+          const heading = token as Tokens.Heading;
+          const text = this.inlineText(heading.tokens);
+          nodes.push({
+            type: 'heading',
+            line: tokenLine,
+            depth: heading.depth,
+            text,
+            anchor: createAnchor(text),
+            links: this.extractLinks(heading.tokens, tokenLine)
+          });
+          break;
+        }
+        case 'paragraph':
+        case 'text': {
+          const paragraph = token as Tokens.Paragraph;
+          const inline = paragraph.tokens || [];
+          const text = inline.length > 0 ? this.inlineText(inline) : unescapeHtml(paragraph.text);
+          nodes.push({ type: 'paragraph', line: tokenLine, text, links: this.extractLinks(inline, tokenLine) });
+          break;
+        }
+        case 'code': {
+          const code = token as Tokens.Code;
+          nodes.push({ type: 'code', line: tokenLine, text: code.text, lang: code.lang || undefined });
+          break;
+        }
+        case 'table': {
+          const table = token as Tokens.Table;
+          const rows = [table.header, ...table.rows].map(row => row.map(cell => this.inlineText(cell.tokens)));
+          // The delimiter row sits between the header and the body rows
+          const links = [
+            ...table.header.flatMap(cell => this.extractLinks(cell.tokens, tokenLine)),
+            ...table.rows.flatMap((row, index) => row.flatMap(cell => this.extractLinks(cell.tokens, tokenLine + 2 + index)))
+          ];
+          nodes.push({ type: 'table', line: tokenLine, text: rows.map(row => row.join(' ')).join('\n'), rows, links });
+          break;
+        }
+        case 'list': {
+          const list = token as Tokens.List;
+          let itemLine = tokenLine;
+          const items = list.items.map(item => {
+            const children = this.buildNodes(item.tokens, itemLine);
+            const node: DocumentNode = {
+              type: 'list_item',
+              line: itemLine,
+              text: this.extractProse(children, ' '),
+              children
+            };
+            itemLine += countNewlines(item.raw);
+            return node;
+          });
+          nodes.push({
+            type: 'list',
+            line: tokenLine,
+            text: items.map(item => item.text).join('\n'),
+            ordered: list.ordered,
+            children: items
+          });
+          break;
+        }
+        case 'blockquote': {
+          const children = this.buildNodes((token as Tokens.Blockquote).tokens, tokenLine);
+          nodes.push({ type: 'blockquote', line: tokenLine, text: this.extractProse(children), children });
+          break;
+        }
+        case 'html': {
+          nodes.push({ type: 'html', line: tokenLine, text: token.raw.trim() });
+          break;
+        }
+        default:
+          // Spaces, rules and link definitions carry no content
+          break;
+      }
+    }
+
+    return nodes;
+  }
+
+  private inlineText(tokens: Token[]): string {
+    return tokens.map(token => {
+      switch (token.type) {
+        case 'text':
+        case 'strong':
+        case 'em':
+        case 'del':
+        case 'link': {
+          const inline = (token as Tokens.Text).tokens;
+          return inline ? this.inlineText(inline) : unescapeHtml((token as Tokens.Text).text);
+        }
+        case 'codespan':
+        case 'escape':
+        case 'image':
+          return unescapeHtml((token as Tokens.Codespan).text);
+        case 'br':
+          return ' ';
+        default:
+          return '';
+      }
+    }).join('').replace(/\s+/g, ' ').trim();
+  }
+
+  private extractLinks(tokens: Token[], startLine: number): DocumentLink[] {
+    const links: DocumentLink[] = [];
+    let line = startLine;
+
+    for (const token of tokens) {
+      if (token.type === 'link') {
+        const link = token as Tokens.Link;
+        links.push({ href: link.href, text: this.inlineText(link.tokens), line });
+      } else if (token.type === 'image') {
+        const image = token as Tokens.Image;
+        links.push({ href: image.href, text: image.text, image: true, line });
+      }
+
+      const nested = (token as Tokens.Generic).tokens;
+      if (nested && token.type !== 'link') {
+        links.push(...this.extractLinks(nested, line));
+      }
+
+      line += countNewlines(token.raw);
+    }
+
+    return links;
+  }
+
+  /**
+   * Plain prose of a node list: headings, paragraphs, lists, tables and
+   * quotes, without code blocks or raw HTML
+   */
+  extractProse(nodes: DocumentNode[], separator = '\n\n'): string {
+    return nodes
+      .filter(node => node.type !== 'code' && node.type !== 'html')
+      .map(node => node.text)
+      .filter(Boolean)
+      .join(separator);
+  }
+
+  /**
+   * Split a document into one chunk per heading, each holding the text up to
+   * the next heading and the path of headings above it. Text before the
+   * first heading becomes a chunk without an anchor.
+   */
+  extractChunks(nodes: DocumentNode[]): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    const headingStack: { level: number; text: string }[] = [];
+    let current: DocumentChunk = { anchor: '', level: 0, headingPath: [], content: '' };
+    const texts: string[] = [];
+
+    const finishChunk = () => {
+      current.content = texts.join('\n\n').trim();
+      if (current.content || current.level > 0) {
+        chunks.push(current);
+      }
+      texts.length = 0;
+    };
+
+    for (const node of nodes) {
+      if (node.type !== 'heading') {
+        if (node.type !== 'html' && node.text) {
+          texts.push(node.text);
+        }
+        continue;
+      }
+
+      finishChunk();
+
+      const level = node.depth || 1;
+      while (headingStack.length > 0 && (headingStack[headingStack.length - 1]?.level ?? 0) >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: node.text });
+
+      current = {
+        anchor: node.anchor || createAnchor(node.text),
+        level,
+        headingPath: headingStack.map(entry => entry.text),
+        content: ''
+      };
     }
 
-    return headings;
+    finishChunk();
+    return chunks;
   }
 
   private calculateMetadata(
@@ -257,6 +531,14 @@ export class DocumentParser {
     return Array.from(tags);
   }
 
+  /**
+   * Replace the parsed documents with previously cached parses
+   */
+  restore(documents: ParsedDocument[]): Map<string, ParsedDocument> {
+    this.docs = new Map(documents.map(doc => [doc.id, doc]));
+    return this.docs;
+  }
+
   getDocument(id: string): ParsedDocument | undefined {
     return this.docs.get(id);
   }
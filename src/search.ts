@@ -4,15 +4,27 @@
  */
 
 import lunr from 'lunr';
-import { ParsedDocument, SearchResult, SearchOptions, SearchMetadata, IndexStats } from './types.js';
+import { ParsedDocument, DocumentChunk, SearchResult, SearchOptions, SearchMetadata, IndexStats } from './types.js';
 import { SearchError, handleError } from './errors.js';
 import { logger } from './logger.js';
 import { config } from './config.js';
 
+const CHUNK_SEPARATOR = '::';
+const MAX_SECTIONS_PER_RESULT = 3;
+
 export class SearchEngine {
   private index: lunr.Index | null = null;
   private docs: Map<string, ParsedDocument> = new Map();
+  private chunks: Map<string, { docId: string; chunk: DocumentChunk }> = new Map();
   private lastIndexed: Date | null = null;
+  private docsUri: string;
+
+  /**
+   * @param docsUri Resource URI prefix for result links, e.g. "klipper://v0.12.0/docs"
+   */
+  constructor(docsUri = 'klipper://docs') {
+    this.docsUri = docsUri;
+  }
 
   buildIndex(documents: Map<string, ParsedDocument>): void {
     logger.info(`Building search index with ${documents.size} documents`, 'SearchEngine');
@@ -21,12 +33,13 @@ export class SearchEngine {
     this.docs = documents;
 
     try {
-      const docsArray = Array.from(documents.values());
+      const chunkEntries = this.collectChunks(documents);
 
       this.index = lunr(function () {
-        // Configure the index
-        this.ref('id');
+        // Configure the index; every heading-level chunk is a separate entry
+        this.ref('ref');
         this.field('title', { boost: 10 });
+        this.field('heading', { boost: 5 });
         this.field('content');
         this.field('section', { boost: 5 });
         this.field('tags', { boost: 3 });
@@ -34,12 +47,13 @@ export class SearchEngine {
         // Add metadata extractor for position information
         this.metadataWhitelist = ['position'];
 
-        // Add all documents to the index
-        docsArray.forEach(doc => {
+        // Add all chunks to the index
+        chunkEntries.forEach(({ ref, doc, chunk }) => {
           this.add({
-            id: doc.id,
+            ref,
             title: doc.title,
-            content: doc.content,
+            heading: chunk.headingPath.join(' '),
+            content: chunk.content,
             section: doc.section,
             tags: doc.metadata.tags.join(' ')
           });
@@ -48,12 +62,70 @@ export class SearchEngine {
 
       this.lastIndexed = new Date();
       const elapsed = Date.now() - startTime;
-      logger.info(`Search index built in ${elapsed}ms`, 'SearchEngine');
+      logger.info(`Search index built in ${elapsed}ms with ${chunkEntries.length} chunks`, 'SearchEngine');
     } catch (error) {
       throw handleError(error, 'SearchEngine.buildIndex');
     }
   }
 
+  /**
+   * Restore an index serialized with getSerializedIndex() for the same
+   * documents, skipping the lunr build
+   */
+  loadIndex(documents: Map<string, ParsedDocument>, serializedIndex: object): void {
+    try {
+      this.docs = documents;
+      const chunkEntries = this.collectChunks(documents);
+      this.index = lunr.Index.load(serializedIndex);
+      this.lastIndexed = new Date();
+      logger.info(`Search index loaded with ${chunkEntries.length} chunks`, 'SearchEngine');
+    } catch (error) {
+      throw handleError(error, 'SearchEngine.loadIndex');
+    }
+  }
+
+  /**
+   * Take over the state of an engine built off to the side, in one step
+   */
+  swap(next: SearchEngine): void {
+    this.index = next.index;
+    this.docs = next.docs;
+    this.chunks = next.chunks;
+    this.lastIndexed = next.lastIndexed;
+  }
+
+  getSerializedIndex(): object | undefined {
+    return this.index?.toJSON();
+  }
+
+  /**
+   * Number every document's chunks; the refs must match between a build and a load
+   */
+  private collectChunks(documents: Map<string, ParsedDocument>): { ref: string; doc: ParsedDocument; chunk: DocumentChunk }[] {
+    const chunkEntries: { ref: string; doc: ParsedDocument; chunk: DocumentChunk }[] = [];
+    this.chunks = new Map();
+
+    documents.forEach(doc => {
+      this.getChunks(doc).forEach((chunk, index) => {
+        const ref = `${doc.id}${CHUNK_SEPARATOR}${index}`;
+        this.chunks.set(ref, { docId: doc.id, chunk });
+        chunkEntries.push({ ref, doc, chunk });
+      });
+    });
+
+    return chunkEntries;
+  }
+
+  /**
+   * Documents parsed without chunks are indexed as a single chunk
+   */
+  private getChunks(doc: ParsedDocument): DocumentChunk[] {
+    if (doc.chunks && doc.chunks.length > 0) {
+      return doc.chunks;
+    }
+    return [{ anchor: '', level: 0, headingPath: [], content: doc.content }];
+  }
+
   search(query: string, options: SearchOptions = {}): SearchResult[] {
     if (!this.index) {
       throw new SearchError('Search index not initialized', 'SearchEngine.search');
@@ -65,39 +137,62 @@ export class SearchEngine {
     try {
       logger.debug(`Searching for: "${query}"`, 'SearchEngine');
 
-      // Perform the search
+      // Perform the search over chunks
       let results = this.index.search(query);
 
       // Filter by section if specified
       if (options.section) {
         results = results.filter(result => {
-          const doc = this.docs.get(result.ref);
-          return doc?.section === options.section;
+          const docId = this.chunks.get(result.ref)?.docId;
+          return docId !== undefined && this.docs.get(docId)?.section === options.section;
         });
       }
 
       // Filter by minimum score
       results = results.filter(result => result.score >= config.search.minScore);
 
+      // Group chunk hits per document, keeping lunr's ranking order
+      const grouped = new Map<string, lunr.Index.Result[]>();
+      results.forEach(result => {
+        const docId = this.chunks.get(result.ref)?.docId;
+        if (docId === undefined) return;
+        const hits = grouped.get(docId) || [];
+        hits.push(result);
+        grouped.set(docId, hits);
+      });
+
       // Limit results
-      results = results.slice(0, limit);
+      const documentHits = Array.from(grouped.entries()).slice(0, limit);
 
       // Build search results
-      const searchResults: SearchResult[] = results.map(result => {
-        const doc = this.docs.get(result.ref);
+      const searchResults: SearchResult[] = documentHits.map(([docId, hits]) => {
+        const doc = this.docs.get(docId);
         if (!doc) {
-          throw new SearchError(`Document not found: ${result.ref}`, 'SearchEngine.search');
+          throw new SearchError(`Document not found: ${docId}`, 'SearchEngine.search');
         }
 
+        const sections = hits.slice(0, MAX_SECTIONS_PER_RESULT).map(hit => {
+          const chunk = this.chunks.get(hit.ref)?.chunk;
+          const anchor = chunk?.anchor || '';
+          return {
+            anchor,
+            headingPath: chunk?.headingPath || [],
+            link: anchor ? `${this.docsUri}/${doc.id}#${anchor}` : `${this.docsUri}/${doc.id}`,
+            score: hit.score,
+            snippet: this.generateSnippet(chunk?.content || '', query)
+          };
+        });
+
         return {
           document: doc,
-          score: result.score,
-          snippet: this.generateSnippet(doc.content, query),
-          highlights: this.extractHighlights(result, query),
+          score: hits[0]?.score ?? 0,
+          snippet: sections[0]?.snippet || this.generateSnippet(doc.content, query),
+          highlights: Array.from(new Set(hits.flatMap(hit => this.extractHighlights(hit, query)))),
+          sections,
           metadata: {
             query,
             searchTime: Date.now() - startTime,
-            totalResults: results.length,
+            totalResults: grouped.size,
             filters: options.section ? { section: options.section } : undefined
           }
         };
@@ -6,28 +6,127 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import * as path from 'path';
 import { config } from './config.js';
 import { logger } from './logger.js';
-import { gitSync } from './git-sync.js';
-import { documentParser } from './parser.js';
-import { searchEngine } from './search.js';
-import { handleError, NotFoundError, ValidationError } from './errors.js';
-import { SearchToolInput, LookupToolInput, BrowseToolInput, ParsedDocument } from './types.js';
+import { gitSync, GitSync, scopeChanges } from './git-sync.js';
+import { docsSource, buildSnapshot, SnapshotDocsSource } from './docs-source.js';
+import { DocumentParser } from './parser.js';
+import { configSchema, ConfigSchemaParser } from './config-schema.js';
+import { configValidator } from './config-validator.js';
+import { configFileParser } from './config-file.js';
+import { gcodeReference } from './gcode-reference.js';
+import { statusReference } from './status-reference.js';
+import { macroLinter } from './macro-lint.js';
+import { configChangeLog } from './config-changes.js';
+import { exampleConfigs } from './example-configs.js';
+import { boardPins } from './board-pins.js';
+import { linkGraph } from './link-graph.js';
+import { docsHealthChecker } from './docs-health.js';
+import { docsChangeTracker } from './docs-changes.js';
+import { docHistoryReader } from './doc-history.js';
+import { docTaxonomy, DocTaxonomy } from './taxonomy.js';
+import { searchEngine, SearchEngine } from './search.js';
+import { indexCache, IndexCache } from './index-cache.js';
+import { SyncScheduler } from './sync-scheduler.js';
+import { HttpTransportServer } from './http-transport.js';
+import { handleError, formatErrorResponse, NotFoundError, ValidationError } from './errors.js';
+import { rankSuggestions } from './suggest.js';
+import { toolOutputSchemas, summarizeDocument, toSearchOutput } from './tool-output.js';
+import {
+  SearchToolInput,
+  LookupToolInput,
+  BrowseToolInput,
+  ValidateConfigToolInput,
+  ParseConfigToolInput,
+  GCodeToolInput,
+  GCodeCommand,
+  StatusToolInput,
+  StatusObject,
+  LintMacroToolInput,
+  DeprecationToolInput,
+  ExampleConfigToolInput,
+  BoardPinToolInput,
+  BoardPinMap,
+  RelatedDocsToolInput,
+  DocsHealthToolInput,
+  DocsHealthReport,
+  DocsChangesToolInput,
+  DocHistoryToolInput,
+  GitCommitInfo,
+  TaxonomyNode,
+  LogLevel,
+  ParsedDocument,
+  GitSyncResult,
+  GitFileChange,
+  DocumentCorpus,
+  DocsVersion,
+  ConfigLookupOutput,
+  BrowseOutput,
+  IndexStatsOutput
+} from './types.js';
+
+/**
+ * Error details are untyped; suggestions are only shown when they are names
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Everything indexed for one documentation version. The default version
+ * uses the shared singletons, so tools without a version argument see it.
+ */
+interface VersionState {
+  version: DocsVersion;
+  primary: boolean;
+  corpus?: DocumentCorpus;
+  search: SearchEngine;
+  taxonomy: DocTaxonomy;
+  schema: ConfigSchemaParser;
+  cache: IndexCache;
+}
 
-class KlipperMCPServer {
-  private server: Server;
+export class KlipperMCPServer {
+  private versions: Map<string, VersionState> = new Map();
+  private scheduler?: SyncScheduler;
+  private httpTransport?: HttpTransportServer;
 
   constructor() {
-    this.server = new Server(
+    // A snapshot brings its own prebuilt index
+    const sourceCachePath = docsSource.getCachePath?.();
+    const primaryCache = sourceCachePath ? new IndexCache(sourceCachePath, true) : indexCache;
+
+    docsSource.getVersions().forEach((version, index) => {
+      const primary = index === 0;
+      this.versions.set(version.name, {
+        version,
+        primary,
+        search: primary ? searchEngine : new SearchEngine(`klipper://${version.name}/docs`),
+        taxonomy: primary ? docTaxonomy : new DocTaxonomy(),
+        schema: primary ? configSchema : new ConfigSchemaParser(),
+        cache: primary ? primaryCache : new IndexCache(path.join(config.cache.path, 'versions', version.name)),
+      });
+    });
+  }
+
+  /**
+   * An MCP server bound to the shared index. stdio uses one; over HTTP
+   * every session gets its own.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: config.server.name,
         version: config.server.version,
@@ -41,12 +140,19 @@ class KlipperMCPServer {
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const versionNames = Array.from(this.versions.keys());
+      const versionProperty = {
+        type: 'string',
+        description: `Klipper version to use (${versionNames.join(', ')}); defaults to ${versionNames[0]}`,
+      };
+
       return {
         tools: [
           {
@@ -68,13 +174,15 @@ class KlipperMCPServer {
                   type: 'string',
                   description: 'Filter results by documentation section (e.g., "Config_Reference", "G-Codes")',
                 },
+                version: versionProperty,
               },
               required: ['query'],
             },
+            outputSchema: toolOutputSchemas.search_klipper_docs,
           },
           {
             name: 'get_config_option',
-            description: 'Get detailed information about a specific Klipper configuration option or section',
+            description: 'Get detailed information about a specific Klipper configuration option or section, including its structured schema (defaults, types, required options)',
             inputSchema: {
               type: 'object',
               properties: {
@@ -87,26 +195,320 @@ class KlipperMCPServer {
                   description: 'Include example configurations if available',
                   default: true,
                 },
+                version: versionProperty,
               },
               required: ['option'],
             },
+            outputSchema: toolOutputSchemas.get_config_option,
           },
           {
             name: 'browse_docs',
-            description: 'Browse available documentation sections and files',
+            description: 'Browse the documentation by the categories of the Overview.md table of contents, drilling down into subcategories and documents',
             inputSchema: {
               type: 'object',
               properties: {
                 section: {
                   type: 'string',
-                  description: 'Section to browse (leave empty to list all sections)',
+                  description: 'Category to browse, by id or title (leave empty to list all categories)',
+                },
+                subsection: {
+                  type: 'string',
+                  description: 'Subcategory within the section to browse (e.g. "Bed_Level")',
                 },
                 path: {
                   type: 'string',
                   description: 'Specific document path to retrieve',
                 },
+                version: versionProperty,
+              },
+            },
+            outputSchema: toolOutputSchemas.browse_docs,
+          },
+          {
+            name: 'validate_printer_config',
+            description: 'Validate the text of a printer.cfg against the Klipper Configuration Reference, reporting unknown sections, misspelled options, missing required options and wrong value types',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                config: {
+                  type: 'string',
+                  description: 'Full text of the printer.cfg file to validate',
+                },
+                files: {
+                  type: 'object',
+                  description: 'Additional config files referenced by [include] sections, keyed by path relative to printer.cfg',
+                  additionalProperties: { type: 'string' },
+                },
+                mainFile: {
+                  type: 'string',
+                  description: 'Path of the main config file used to resolve includes (default: "printer.cfg")',
+                },
+              },
+              required: ['config'],
+            },
+            outputSchema: toolOutputSchemas.validate_printer_config,
+          },
+          {
+            name: 'parse_printer_config',
+            description: 'Parse a Klipper printer.cfg (with [include] files, multi-line values and the SAVE_CONFIG block) into a merged section/option tree recording the file and line of every value',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                config: {
+                  type: 'string',
+                  description: 'Full text of the main printer.cfg file',
+                },
+                files: {
+                  type: 'object',
+                  description: 'Additional config files referenced by [include] sections, keyed by path relative to printer.cfg',
+                  additionalProperties: { type: 'string' },
+                },
+                mainFile: {
+                  type: 'string',
+                  description: 'Path of the main config file used to resolve includes (default: "printer.cfg")',
+                },
+              },
+              required: ['config'],
+            },
+            outputSchema: toolOutputSchemas.parse_printer_config,
+          },
+          {
+            name: 'get_gcode_command',
+            description: 'Look up a Klipper G-Code command (e.g. SET_PRESSURE_ADVANCE) with its parameters, enabling config section and description. Partial names list all matching commands (e.g. "TMC" or "BED_MESH*") and misspellings return the closest commands',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                command: {
+                  type: 'string',
+                  description: 'Command name, prefix or config section (e.g. "G28", "SET_PRESSURE_ADVANCE", "TMC")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of commands to list for prefix matches (default: 25)',
+                  default: 25,
+                },
+              },
+              required: ['command'],
+            },
+            outputSchema: toolOutputSchemas.get_gcode_command,
+          },
+          {
+            name: 'get_status_attribute',
+            description: 'Look up printer status objects and attributes available to G-Code macros (e.g. printer.toolhead.position or printer["heater_bed"].target) from the Klipper Status Reference',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                reference: {
+                  type: 'string',
+                  description: 'Status object or attribute reference (e.g. "toolhead", "printer.toolhead.position", "printer[\'heater_bed\'].target")',
+                },
+              },
+              required: ['reference'],
+            },
+            outputSchema: toolOutputSchemas.get_status_attribute,
+          },
+          {
+            name: 'lint_gcode_macro',
+            description: 'Lint a [gcode_macro ...] block: flags printer.<object>.<attr> references not documented in the Status Reference, G-Code commands not in the G-Code reference, and params.X usages without defaults',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                macro: {
+                  type: 'string',
+                  description: 'Config text containing one or more [gcode_macro ...] sections',
+                },
+                knownCommands: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Additional command names to accept, such as macros defined elsewhere in printer.cfg',
+                },
+              },
+              required: ['macro'],
+            },
+            outputSchema: toolOutputSchemas.lint_gcode_macro,
+          },
+          {
+            name: 'check_config_deprecations',
+            description: 'Check a printer.cfg against Config_Changes.md and list every removed, renamed or changed option, section or command it still uses, with the matching dated changelog entry',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                config: {
+                  type: 'string',
+                  description: 'Full text of the main printer.cfg file',
+                },
+                files: {
+                  type: 'object',
+                  description: 'Additional config files referenced by [include] sections, keyed by path relative to printer.cfg',
+                  additionalProperties: { type: 'string' },
+                },
+                mainFile: {
+                  type: 'string',
+                  description: 'Path of the main config file used to resolve includes (default: "printer.cfg")',
+                },
+                installDate: {
+                  type: 'string',
+                  description: 'Date of the current Klipper install (YYYY-MM-DD); changes after it are marked as upcoming',
+                },
+                installCommit: {
+                  type: 'string',
+                  description: 'Commit hash or `git describe` version of the current Klipper install, used when installDate is not given',
+                },
+              },
+              required: ['config'],
+            },
+            outputSchema: toolOutputSchemas.check_config_deprecations,
+          },
+          {
+            name: 'find_example_config',
+            description: 'Find example printer configs from the Klipper config/ directory (printer-*, generic-* and sample-* files) by vendor, model, year, MCU or board, optionally ranked by a free-text query. Full files are available as klipper://configs/{id} resources',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Free-text search over names, header comments and sections (e.g. "ender 3 bltouch")',
+                },
+                kind: {
+                  type: 'string',
+                  enum: ['printer', 'generic', 'sample'],
+                  description: 'printer-* (complete machines), generic-* (controller boards) or sample-* (feature examples)',
+                },
+                vendor: {
+                  type: 'string',
+                  description: 'Printer or board vendor from the file name (e.g. "creality", "bigtreetech")',
+                },
+                model: {
+                  type: 'string',
+                  description: 'Model from the file name (e.g. "ender3", "skr-mini-e3")',
+                },
+                year: {
+                  type: 'number',
+                  description: 'Model year of printer configs',
+                },
+                mcu: {
+                  type: 'string',
+                  description: 'Micro-controller named in the header comments (e.g. "STM32F103", "atmega2560")',
+                },
+                board: {
+                  type: 'string',
+                  description: 'Controller board named in the header comments',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of configs to return (default: 20)',
+                  default: 20,
+                },
+              },
+            },
+            outputSchema: toolOutputSchemas.find_example_config,
+          },
+          {
+            name: 'get_board_pins',
+            description: 'Get the pin assignments (stepper step/dir/enable, heaters, thermistors, fans, endstops) of a controller board from the Klipper generic-*.cfg configs, or find which boards use a given pin (e.g. PA8 as a heater)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                board: {
+                  type: 'string',
+                  description: 'Board config id or part of it (e.g. "generic-bigtreetech-skr-mini-e3-v2.0", "skr-mini")',
+                },
+                pin: {
+                  type: 'string',
+                  description: 'Pin to look up across all boards (e.g. "PA8")',
+                },
+                role: {
+                  type: 'string',
+                  enum: ['step', 'dir', 'enable', 'endstop', 'heater', 'thermistor', 'fan', 'other'],
+                  description: 'Only return pins with this role',
+                },
+              },
+            },
+            outputSchema: toolOutputSchemas.get_board_pins,
+          },
+          {
+            name: 'get_related_docs',
+            description: 'List documents related to a Klipper document through links to it, links from it and shared topics (e.g. from "Bed_Mesh" to "Probe_Calibrate"), with the linking text and anchors',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                document: {
+                  type: 'string',
+                  description: 'Document ID (e.g. "Bed_Mesh", "Config_Reference")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of related documents (default: 10)',
+                  default: 10,
+                },
+              },
+              required: ['document'],
+            },
+            outputSchema: toolOutputSchemas.get_related_docs,
+          },
+          {
+            name: 'docs_health_report',
+            description: 'Check the Klipper documentation for broken links and anchors, missing images, documents without an H1, duplicate heading anchors and documents not reachable from Overview.md. Returns JSON with file and line positions. To check a local branch before opening a PR, run the server with --docs-health <path>',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                entryDocument: {
+                  type: 'string',
+                  description: 'Document ID that all docs should be reachable from (default: "Overview")',
+                },
+              },
+            },
+            outputSchema: toolOutputSchemas.docs_health_report,
+          },
+          {
+            name: 'docs_changes_since',
+            description: 'List the Klipper docs changed between two commits or tags, or since a date, with the headings added, removed and modified in each and a condensed diff of the prose. Useful for summarizing what changed after a Klipper update',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                from: {
+                  type: 'string',
+                  description: 'Commit, tag or `git describe` version to compare from (e.g. "v0.12.0")',
+                },
+                since: {
+                  type: 'string',
+                  description: 'Compare from the last commit before this date instead (ISO format, e.g. "2024-01-15")',
+                },
+                to: {
+                  type: 'string',
+                  description: 'Commit or tag to compare to (default: the commit of the default served version)',
+                },
+                document: {
+                  type: 'string',
+                  description: 'Only report this document ID (e.g. "Bed_Mesh")',
+                },
+              },
+            },
+            outputSchema: toolOutputSchemas.docs_changes_since,
+          },
+          {
+            name: 'get_doc_history',
+            description: 'Show the recent commits that changed a Klipper document (date, author, subject, hash), and when a section of it last changed. Useful to tell whether advice in the docs is new or long-standing',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                document: {
+                  type: 'string',
+                  description: 'Document ID (e.g. "Kinematics", "Config_Reference")',
+                },
+                anchor: {
+                  type: 'string',
+                  description: 'Heading anchor of a section to report the last change of (e.g. "printer")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of commits (default: 10)',
+                  default: 10,
+                },
               },
+              required: ['document'],
             },
+            outputSchema: toolOutputSchemas.get_doc_history,
           },
           {
             name: 'get_index_stats',
@@ -115,13 +517,14 @@ class KlipperMCPServer {
               type: 'object',
               properties: {},
             },
+            outputSchema: toolOutputSchemas.get_index_stats,
           },
         ],
       };
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -132,6 +535,30 @@ class KlipperMCPServer {
             return await this.handleLookup(args as unknown as LookupToolInput);
           case 'browse_docs':
             return await this.handleBrowse(args as unknown as BrowseToolInput);
+          case 'validate_printer_config':
+            return this.handleValidateConfig(args as unknown as ValidateConfigToolInput);
+          case 'parse_printer_config':
+            return this.handleParseConfig(args as unknown as ParseConfigToolInput);
+          case 'get_gcode_command':
+            return this.handleGCodeCommand(args as unknown as GCodeToolInput);
+          case 'get_status_attribute':
+            return this.handleStatusAttribute(args as unknown as StatusToolInput);
+          case 'lint_gcode_macro':
+            return this.handleLintMacro(args as unknown as LintMacroToolInput);
+          case 'check_config_deprecations':
+            return await this.handleDeprecations(args as unknown as DeprecationToolInput);
+          case 'find_example_config':
+            return this.handleFindExampleConfig(args as unknown as ExampleConfigToolInput);
+          case 'get_board_pins':
+            return this.handleBoardPins(args as unknown as BoardPinToolInput);
+          case 'get_related_docs':
+            return this.handleRelatedDocs(args as unknown as RelatedDocsToolInput);
+          case 'docs_health_report':
+            return this.handleDocsHealth(args as unknown as DocsHealthToolInput);
+          case 'docs_changes_since':
+            return await this.handleDocsChanges(args as unknown as DocsChangesToolInput);
+          case 'get_doc_history':
+            return await this.handleDocHistory(args as unknown as DocHistoryToolInput);
           case 'get_index_stats':
             return await this.handleStats();
           default:
@@ -139,12 +566,17 @@ class KlipperMCPServer {
         }
       } catch (error) {
         const klipperError = handleError(error, `Tool:${name}`);
+        const suggestions = klipperError.details?.suggestions;
+        const suggestionText = isStringArray(suggestions) && suggestions.length > 0
+          ? this.formatSuggestions(suggestions)
+          : '';
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${klipperError.message}`,
+              text: `Error: ${klipperError.message}${suggestionText}`,
             },
+            this.formatJsonContent(formatErrorResponse(klipperError)),
           ],
           isError: true,
         };
@@ -152,25 +584,102 @@ class KlipperMCPServer {
     });
 
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const docs = searchEngine.getAllDocuments();
       return {
-        resources: docs.map(doc => ({
-          uri: `klipper://docs/${doc.id}`,
-          name: doc.title,
-          description: `${doc.section} - ${doc.metadata.difficulty} level`,
-          mimeType: 'text/markdown',
-        })),
+        resources: [
+          ...docs.map(doc => ({
+            uri: `klipper://docs/${doc.id}`,
+            name: doc.title,
+            description: `${doc.section} - ${doc.metadata.difficulty} level`,
+            mimeType: 'text/markdown',
+          })),
+          ...statusReference.getAllObjects().map(object => ({
+            uri: `klipper://status/${encodeURIComponent(object.name)}`,
+            name: `Status: ${object.name}`,
+            description: `Printer status attributes of the ${object.name} object`,
+            mimeType: 'text/markdown',
+          })),
+        ],
+      };
+    });
+
+    // List resource templates
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'klipper://status/{object}',
+            name: 'Printer status object',
+            description: 'Attributes available on a printer status object in macros (e.g. toolhead, heater_bed)',
+            mimeType: 'text/markdown',
+          },
+          {
+            uriTemplate: 'klipper://{version}/docs/{id}',
+            name: 'Versioned documentation page',
+            description: `A documentation page of a configured Klipper version (${Array.from(this.versions.keys()).join(', ')})`,
+            mimeType: 'text/markdown',
+          },
+          {
+            uriTemplate: 'klipper://configs/{id}',
+            name: 'Example printer config',
+            description: 'An example config from the Klipper config/ directory (e.g. printer-creality-ender3-2018)',
+            mimeType: 'text/plain',
+          },
+        ],
       };
     });
 
     // Read resource content
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       try {
-        const docId = uri.replace('klipper://docs/', '');
-        const doc = searchEngine.getDocument(docId);
+        if (uri.startsWith('klipper://status/')) {
+          const objectName = decodeURIComponent(uri.replace('klipper://status/', ''));
+          const object = statusReference.findObject(objectName);
+
+          if (!object) {
+            throw new NotFoundError(`Status object not found: ${objectName}`, 'ReadResource');
+          }
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/markdown',
+                text: this.formatStatusObject(object),
+              },
+            ],
+          };
+        }
+
+        if (uri.startsWith('klipper://configs/')) {
+          const configId = decodeURIComponent(uri.replace('klipper://configs/', ''));
+          const example = exampleConfigs.getConfig(configId);
+
+          if (!example) {
+            throw new NotFoundError(`Example config not found: ${configId}`, 'ReadResource');
+          }
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/plain',
+                text: example.content,
+              },
+            ],
+          };
+        }
+
+        // klipper://docs/{id} serves the default version, klipper://{version}/docs/{id} any version
+        const versioned = /^klipper:\/\/([^/]+)\/docs\/(.*)$/.exec(uri);
+        const versionName = versioned && versioned[1] !== 'docs' ? versioned[1] : undefined;
+        const { search } = this.getVersion(versionName);
+        const docPath = versioned && versionName ? versioned[2] || '' : uri.replace('klipper://docs/', '');
+        const docId = docPath.split('#')[0] || '';
+        const doc = search.getDocument(docId);
 
         if (!doc) {
           throw new NotFoundError(`Document not found: ${docId}`, 'ReadResource');
@@ -192,7 +701,7 @@ class KlipperMCPServer {
     });
 
     // List available prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
         prompts: [
           {
@@ -233,7 +742,7 @@ class KlipperMCPServer {
     });
 
     // Get prompt content
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       switch (name) {
@@ -250,126 +759,185 @@ class KlipperMCPServer {
   }
 
   private async handleSearch(input: SearchToolInput) {
-    const results = searchEngine.search(input.query, {
+    const { search, version } = this.getVersion(input.version);
+    const results = search.search(input.query, {
       limit: input.limit,
       section: input.section,
     });
+    const output = toSearchOutput(input.query, version.name, results, input.section);
 
     if (results.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No results found for "${input.query}". Try different keywords or browse available sections.`,
-          },
-        ],
-      };
+      return this.formatToolResult(
+        `No results found for "${input.query}". Try different keywords or browse available sections.`,
+        output
+      );
     }
 
     const formattedResults = results.map((result, index) => {
+      const matchingSections = result.sections
+        .filter(section => section.headingPath.length > 0)
+        .map(section => `- ${section.headingPath.join(' › ')} (${section.link})`)
+        .join('\n');
+
       return `## ${index + 1}. ${result.document.title}
 **Section**: ${result.document.section}
 **Relevance**: ${(result.score * 100).toFixed(1)}%
 **Path**: ${result.document.filePath}
-
+${matchingSections ? `\n**Matching sections**:\n${matchingSections}\n` : ''}
 ${result.snippet}
 
 ---`;
     }).join('\n\n');
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `# Search Results for "${input.query}"
+    return this.formatToolResult(`# Search Results for "${input.query}"
 
 Found ${results.length} result(s):
 
-${formattedResults}`,
-        },
-      ],
-    };
+${formattedResults}`, output);
   }
 
   private async handleLookup(input: LookupToolInput) {
+    const { search, schema, version } = this.getVersion(input.version);
+    const lookup = { option: input.option, version: version.name };
+
     // First, always try to get Config_Reference document directly
-    const configRefDoc = searchEngine.getDocument('Config_Reference');
+    const configRefDoc = search.getDocument('Config_Reference');
     
     if (configRefDoc) {
+      // Resolve variants such as "stepper_y" or "extruder1" to their documented section
+      const sectionSchema = schema.findSection(input.option);
+
       // Try to extract the specific section from Config_Reference
-      const sectionContent = this.extractConfigSection(configRefDoc.content, input.option);
+      const sectionContent = this.extractConfigSection(configRefDoc.content, input.option)
+        || (sectionSchema ? this.extractConfigSection(configRefDoc.content, sectionSchema.name) : null);
       
       if (sectionContent) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `# Configuration: [${input.option}]
+        const output: ConfigLookupOutput = {
+          ...lookup,
+          match: 'section',
+          source: configRefDoc.id,
+          section: sectionSchema,
+          content: sectionContent,
+          suggestions: [],
+        };
+        return this.formatToolResult(`# Configuration: [${input.option}]
 
 **Source**: Klipper Configuration Reference
 
-${sectionContent}`,
-            },
-          ],
-        };
+${sectionContent}`, output);
       }
-    }
 
-    // If not found in Config_Reference, search all documents
-    const results = searchEngine.search(input.option, { limit: 10 });
+      // The name may be an option rather than a section (e.g. "rotation_distance")
+      const optionMatches = schema.findOption(input.option);
+      if (optionMatches.length > 0) {
+        const formattedOptions = optionMatches.map(({ section, option }) => {
+          const defaultText = option.default !== undefined ? `\`${option.default}\`` : 'none';
+          return `## [${section.name}] ${option.name}
+**Type**: ${option.type}
+**Required**: ${option.required ? 'yes' : 'no'}
+**Default**: ${defaultText}
+
+${option.description.join(' ')}`;
+        }).join('\n\n');
+
+        const output: ConfigLookupOutput = {
+          ...lookup,
+          match: 'option',
+          source: configRefDoc.id,
+          options: optionMatches.map(({ section, option }) => ({ section: section.name, ...option })),
+          suggestions: [],
+        };
+        return this.formatToolResult(`# Configuration option: ${input.option}
 
-    if (results.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Configuration option "${input.option}" not found in Klipper documentation. 
+**Source**: Klipper Configuration Reference
 
-Try one of these approaches:
-- Check the exact spelling (e.g., "extruder", "stepper_x", "bed_mesh")
-- Use the search tool for broader results
-- Browse the Config_Reference document directly`,
-          },
-        ],
-      };
+${formattedOptions}`, output);
+      }
     }
 
+    // If not found in Config_Reference, search all documents
+    const results = search.search(input.option, { limit: 10 });
+    const suggestions = rankSuggestions(input.option, this.getLookupCandidates(search, schema));
+
     // Use the best search match
     const bestMatch = results[0];
     if (!bestMatch) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Configuration option "${input.option}" not found.`,
-          },
-        ],
-      };
+      throw new NotFoundError(
+        `Configuration option "${input.option}" not found in Klipper documentation`,
+        'GetConfigOption',
+        { option: input.option, suggestions }
+      );
     }
 
-    // Try to extract section from the matched document
+    // Try to extract section from the matched document, else fall back to the full document
     const sectionContent = this.extractConfigSection(bestMatch.document.content, input.option);
-    
+    const output: ConfigLookupOutput = {
+      ...lookup,
+      match: 'document',
+      source: bestMatch.document.id,
+      content: sectionContent || bestMatch.document.content,
+      suggestions,
+    };
+
     if (sectionContent) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# Configuration: ${input.option}
+      return this.formatToolResult(`# Configuration: ${input.option}
 
-**Source Document**: ${bestMatch.document.title}
+**Source Document**: ${bestMatch.document.title}${this.formatSuggestions(suggestions)}
 
-${sectionContent}`,
-          },
-        ],
-      };
+${sectionContent}`, output);
     }
 
-    // Fall back to full document
-    return this.formatConfigResponse(bestMatch.document, input.includeExamples ?? true);
+    // Note the closest known names above the document
+    const notice = suggestions.length > 0
+      ? `"${input.option}" is not a documented section or option.${this.formatSuggestions(suggestions)}\n\n`
+      : '';
+    return this.formatToolResult(
+      notice + this.formatConfigResponse(bestMatch.document, input.includeExamples ?? true),
+      output
+    );
   }
 
-  private extractConfigSection(content: string, option: string): string | null {
+  /**
+   * Section names, option names and document IDs that lookups can resolve
+   */
+  private getLookupCandidates(search: SearchEngine, schema: ConfigSchemaParser): string[] {
+    const sections = schema.getAllSections();
+    return [
+      ...sections.map(section => section.name),
+      ...sections.flatMap(section => section.options.map(option => option.name)),
+      ...search.getAllDocuments().map(doc => doc.id),
+    ].filter(name => !name.includes('<'));
+  }
+
+  /**
+   * The indexed state of a version, by name or ref; the default version when omitted
+   */
+  private getVersion(name?: string): VersionState {
+    const states = Array.from(this.versions.values());
+    const state = name
+      ? states.find(entry => entry.version.name === name || entry.version.ref === name)
+      : states[0];
+
+    if (!state) {
+      const suggestions = rankSuggestions(name || '', states.map(entry => entry.version.name));
+      throw new NotFoundError(`Unknown documentation version: ${name}`, 'Server', { version: name, suggestions });
+    }
+    if (!state.corpus) {
+      throw new NotFoundError(`Documentation version ${state.version.name} is not indexed yet`, 'Server', {
+        version: state.version.name
+      });
+    }
+    return state;
+  }
+
+  private formatSuggestions(suggestions: string[]): string {
+    if (suggestions.length === 0) {
+      return '';
+    }
+    return `\n\n**Did you mean**: ${suggestions.map(s => `\`${s}\``).join(', ')}`;
+  }
+
+  private extractConfigSection(content: string, option: string): string | null {
     // Normalize option for flexible matching (handle underscores, hyphens, spaces)
     const optionVariants = [
       option,
@@ -413,11 +981,30 @@ ${sectionContent}`,
     return null;
   }
 
+  private formatJsonContent(record: object) {
+    return {
+      type: 'text',
+      text: JSON.stringify(record, null, 2),
+    };
+  }
+
+  /**
+   * Markdown followed by the record as JSON, which is also returned as
+   * structuredContent in the shape of the tool's outputSchema
+   */
+  private formatToolResult(text: string, record: object) {
+    const json = this.formatJsonContent(record);
+    return {
+      content: [{ type: 'text', text }, json],
+      structuredContent: JSON.parse(json.text) as Record<string, unknown>,
+    };
+  }
+
   private escapeRegex(str: string): string {
     return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
 
-  private formatConfigResponse(doc: ParsedDocument, includeExamples: boolean) {
+  private formatConfigResponse(doc: ParsedDocument, includeExamples: boolean): string {
     let response = `# ${doc.title}
 
 **Section**: ${doc.section}
@@ -436,100 +1023,648 @@ ${doc.content}`;
       }
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: response,
-        },
-      ],
-    };
+    return response;
   }
 
   private async handleBrowse(input: BrowseToolInput) {
+    const { search, taxonomy, version } = this.getVersion(input.version);
+
     if (input.path) {
-      const doc = searchEngine.getDocument(input.path);
+      const doc = search.getDocument(input.path);
       if (!doc) {
-        throw new NotFoundError(`Document not found: ${input.path}`, 'BrowseDocs');
+        const suggestions = rankSuggestions(input.path, search.getAllDocuments().map(d => d.id));
+        throw new NotFoundError(`Document not found: ${input.path}`, 'BrowseDocs', { path: input.path, suggestions });
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# ${doc.title}\n\n${doc.content}`,
-          },
-        ],
+      const output: BrowseOutput = {
+        version: version.name,
+        view: 'document',
+        document: summarizeDocument(doc),
+        content: doc.content,
       };
+      return this.formatToolResult(`# ${doc.title}\n\n${doc.content}`, output);
+    }
+
+    const category = input.section ? taxonomy.findCategory(input.section) : undefined;
+    if (category) {
+      const node = input.subsection ? taxonomy.findNode(category, input.subsection) : category;
+      if (!node) {
+        const suggestions = rankSuggestions(
+          input.subsection || '',
+          taxonomy.getSubcategories(category).map(subcategory => subcategory.id)
+        );
+        throw new NotFoundError(`Subsection not found in "${category.title}": ${input.subsection}`, 'BrowseDocs', {
+          section: category.id,
+          subsection: input.subsection,
+          suggestions
+        });
+      }
+
+      const heading = node === category ? category.title : `${category.title} › ${node.title}`;
+      const description = node.description ? `\n\n${node.description}` : '';
+      const output: BrowseOutput = { version: version.name, view: 'category', section: category.id, node };
+      return this.formatToolResult(`# ${heading}${description}\n\n${this.formatTaxonomy(node.children)}`, output);
     }
 
     if (input.section) {
-      const docs = searchEngine.getDocumentsBySection(input.section);
+      const docs = search.getDocumentsBySection(input.section);
+      const output: BrowseOutput = {
+        version: version.name,
+        view: 'section',
+        section: input.section,
+        documents: docs.map(summarizeDocument),
+      };
       if (docs.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No documents found in section "${input.section}".`,
-            },
-          ],
-        };
+        return this.formatToolResult(`No documents found in section "${input.section}".`, output);
       }
 
       const docList = docs.map(doc => `- **${doc.title}** (${doc.filePath})`).join('\n');
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `# Documents in "${input.section}"\n\n${docList}`,
-          },
-        ],
-      };
+      return this.formatToolResult(`# Documents in "${input.section}"\n\n${docList}`, output);
     }
 
-    // List all sections
-    const sections = searchEngine.getSections();
-    const stats = searchEngine.getStats();
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `# Klipper Documentation Browser
+    // List the categories, then sections of documents missing from the table of contents
+    const categories = taxonomy.getCategories();
+    const categoryIds = new Set(categories.map(entry => entry.id));
+    const otherSections = search.getSections().filter(section => !categoryIds.has(section));
+    const stats = search.getStats();
+
+    const formattedCategories = categories.map(entry => {
+      const subcategories = taxonomy.getSubcategories(entry)
+        .map(subcategory => `  - ${subcategory.title} (\`${subcategory.id}\`)`)
+        .join('\n');
+      const count = taxonomy.getDocumentIds(entry).length;
+      return `- **${entry.title}** (\`${entry.id}\`) - ${count} documents${subcategories ? `\n${subcategories}` : ''}`;
+    }).join('\n');
+
+    const formattedOther = otherSections.map(section =>
+      `- **${section}** - ${search.getDocumentsBySection(section).length} documents`
+    ).join('\n');
+
+    const listing = [
+      ...(formattedCategories ? [`## Categories\n\n${formattedCategories}`] : []),
+      ...(formattedOther ? [`## ${formattedCategories ? 'Other Sections' : 'Available Sections'}\n\n${formattedOther}`] : []),
+    ].join('\n\n');
+
+    const output: BrowseOutput = {
+      version: version.name,
+      view: 'overview',
+      categories,
+      otherSections: otherSections.map(section => ({
+        section,
+        documents: search.getDocumentsBySection(section).length,
+      })),
+      stats,
+    };
 
-## Available Sections
+    return this.formatToolResult(`# Klipper Documentation Browser
 
-${sections.map(s => `- **${s}**`).join('\n')}
+${listing}
 
 ## Statistics
 
 - Total Documents: ${stats.totalDocuments}
 - Total Words: ${stats.totalWords.toLocaleString()}
-- Last Indexed: ${stats.lastIndexed.toISOString()}`,
-        },
-      ],
-    };
+- Last Indexed: ${stats.lastIndexed.toISOString()}`, output);
+  }
+
+  /**
+   * Nested markdown list of taxonomy entries with their document IDs and descriptions
+   */
+  private formatTaxonomy(nodes: TaxonomyNode[], depth = 0): string {
+    return nodes.map(node => {
+      const indent = '  '.repeat(depth);
+      const label = node.documentId ? `**${node.title}** (${node.documentId})` : `**${node.title}**`;
+      const description = node.description ? `: ${node.description}` : '';
+      const children = node.children.length > 0 ? `\n${this.formatTaxonomy(node.children, depth + 1)}` : '';
+      return `${indent}- ${label}${description}${children}`;
+    }).join('\n');
+  }
+
+  private handleValidateConfig(input: ValidateConfigToolInput) {
+    if (typeof input.config !== 'string') {
+      throw new ValidationError('The "config" argument must be the printer.cfg text', 'ValidatePrinterConfig');
+    }
+
+    if (configSchema.getAllSections().length === 0) {
+      throw new NotFoundError('Config_Reference schema is not available', 'ValidatePrinterConfig');
+    }
+
+    const report = configValidator.validate(input.config, input.files, input.mainFile);
+    const errors = report.findings.filter(finding => finding.severity === 'error').length;
+    const warnings = report.findings.length - errors;
+
+    const formattedFindings = report.findings.map(finding => {
+      const option = finding.option ? ` \`${finding.option}\`` : '';
+      const suggestions = finding.suggestions.length > 0
+        ? ` (did you mean: ${finding.suggestions.map(s => `\`${s}\``).join(', ')})`
+        : '';
+      const docLink = finding.docLink ? ` - see ${finding.docLink}` : '';
+      return `- **${finding.file}:${finding.line}** ${finding.severity.toUpperCase()} [${finding.section}]${option}: ${finding.message}${suggestions}${docLink}`;
+    }).join('\n');
+
+    return this.formatToolResult(`# printer.cfg Validation
+
+**Result**: ${report.valid ? 'valid' : 'invalid'} - ${errors} error(s), ${warnings} warning(s) across ${report.sectionsChecked} section(s)
+
+${formattedFindings || 'No problems found.'}`, report);
+  }
+
+  private handleParseConfig(input: ParseConfigToolInput) {
+    if (typeof input.config !== 'string') {
+      throw new ValidationError('The "config" argument must be the printer.cfg text', 'ParsePrinterConfig');
+    }
+
+    const mainFile = input.mainFile || 'printer.cfg';
+    const parsed = configFileParser.parse(mainFile, { ...input.files, [mainFile]: input.config });
+
+    const sectionList = parsed.sections.map(section => {
+      const optionCount = Object.keys(section.options).length;
+      return `- **[${section.name}]** ${optionCount} option(s) (${section.file}:${section.line})`;
+    }).join('\n');
+
+    const warnings = parsed.warnings.length > 0
+      ? `\n\n## Warnings\n\n${parsed.warnings.map(w => `- ${w.file}:${w.line}: ${w.message}`).join('\n')}`
+      : '';
+
+    return this.formatToolResult(`# Parsed Config: ${parsed.mainFile}
+
+**Files**: ${parsed.files.join(', ')}
+**Sections**: ${parsed.sections.length}
+
+${sectionList}${warnings}`, parsed);
+  }
+
+  private handleGCodeCommand(input: GCodeToolInput) {
+    if (!input.command || typeof input.command !== 'string') {
+      throw new ValidationError('The "command" argument is required', 'GetGCodeCommand');
+    }
+
+    const query = input.command.trim();
+    const exact = query.endsWith('*') ? undefined : gcodeReference.getCommand(query);
+
+    if (exact) {
+      return this.formatToolResult(this.formatGCodeCommand(exact), { command: exact });
+    }
+
+    // Prefix, name component or config section listing
+    const matches = gcodeReference.findCommands(query);
+    if (matches.length > 0) {
+      const limited = matches.slice(0, input.limit || 25);
+      const commandList = limited.map(command => {
+        const section = command.configSection ? ` [${command.configSection}]` : '';
+        return `- **${command.name}**${section}: \`${command.usage[0] || command.name}\``;
+      }).join('\n');
+
+      return this.formatToolResult(`# G-Code commands matching "${query}"
+
+Found ${matches.length} command(s)${matches.length > limited.length ? `, showing ${limited.length}` : ''}:
+
+${commandList}`, { commands: limited });
+    }
+
+    // Fuzzy match against all command names
+    const suggestions = gcodeReference.suggestCommands(query);
+    const closest = suggestions[0] ? gcodeReference.getCommand(suggestions[0]) : undefined;
+    if (!closest) {
+      return this.formatToolResult(
+        `G-Code command "${query}" not found in the Klipper G-Code reference. Try a shorter prefix (e.g. "BED_MESH") or search the documentation.`,
+        { commands: [], suggestions }
+      );
+    }
+
+    const others = suggestions.slice(1);
+    return this.formatToolResult(`Command "${query}" not found. Closest match:
+
+${this.formatGCodeCommand(closest)}${others.length > 0 ? `\n\n**Other suggestions**: ${others.join(', ')}` : ''}`, { command: closest, suggestions });
+  }
+
+  private formatGCodeCommand(command: GCodeCommand): string {
+    const usage = command.usage.map(u => `\`${u}\``).join('\n');
+    const section = command.configSection ? `\n**Enabled by**: [${command.configSection}] config section` : '';
+    const parameters = command.parameters.length > 0
+      ? `\n\n## Parameters\n\n${command.parameters.map(p => `- \`${p.name}\`${p.value ? ` = \`${p.value}\`` : ''}${p.optional ? ' (optional)' : ''}`).join('\n')}`
+      : '';
+
+    return `# ${command.name}
+
+**Group**: ${command.group}${section}
+**Documentation**: klipper://docs/G-Codes#${command.anchor}
+
+## Usage
+
+${usage}
+
+${command.description}${parameters}`;
+  }
+
+  private handleStatusAttribute(input: StatusToolInput) {
+    if (!input.reference || typeof input.reference !== 'string') {
+      throw new ValidationError('The "reference" argument is required', 'GetStatusAttribute');
+    }
+
+    const lookup = statusReference.resolve(input.reference);
+
+    if (!lookup) {
+      const objectNames = statusReference.getAllObjects().map(object => object.name);
+      const suggestions = statusReference.suggestObjects(input.reference);
+      return this.formatToolResult(`Status object for "${input.reference}" not found in the Klipper Status Reference.${suggestions.length > 0 ? `\n\nDid you mean: ${suggestions.join(', ')}?` : ''}
+
+Available objects: ${objectNames.join(', ')}`, { suggestions, objects: objectNames });
+    }
+
+    if (!lookup.path) {
+      return this.formatToolResult(this.formatStatusObject(lookup.object), { object: lookup.object });
+    }
+
+    if (!lookup.attribute) {
+      const attributes = lookup.object.attributes.map(attribute => `\`${attribute.name}\``).join(', ');
+      return this.formatToolResult(`Attribute "${lookup.path}" is not documented for the "${lookup.object.name}" status object.
+
+Documented attributes: ${attributes || 'none'}
+**Documentation**: klipper://docs/Status_Reference#${lookup.object.anchor}`, { object: lookup.object, path: lookup.path });
+    }
+
+    return this.formatToolResult(`# printer["${lookup.objectName}"].${lookup.path}
+
+**Object**: ${lookup.object.name}
+**Attribute**: \`${lookup.attribute.name}\`
+**Documentation**: klipper://docs/Status_Reference#${lookup.object.anchor}
+
+${lookup.attribute.description}`, { object: lookup.object, path: lookup.path, attribute: lookup.attribute });
+  }
+
+  private formatStatusObject(object: StatusObject): string {
+    const attributes = object.attributes
+      .map(attribute => `- \`${attribute.name}\`: ${attribute.description}`)
+      .join('\n');
+
+    return `# Status object: ${object.name}
+
+${object.summary}
+
+**Documentation**: klipper://docs/Status_Reference#${object.anchor}
+
+## Attributes
+
+${attributes || 'No attributes documented.'}`;
+  }
+
+  private handleLintMacro(input: LintMacroToolInput) {
+    if (typeof input.macro !== 'string') {
+      throw new ValidationError('The "macro" argument must be the gcode_macro config text', 'LintGCodeMacro');
+    }
+
+    if (statusReference.getAllObjects().length === 0 || gcodeReference.getAllCommands().length === 0) {
+      throw new NotFoundError('Status and G-Code references are not available', 'LintGCodeMacro');
+    }
+
+    const reports = macroLinter.lint(input.macro, input.knownCommands);
+
+    const formattedReports = reports.map(report => {
+      const findings = report.findings.map(finding => {
+        const suggestions = finding.suggestions.length > 0
+          ? ` (suggestions: ${finding.suggestions.map(s => `\`${s}\``).join(', ')})`
+          : '';
+        return `- **Line ${finding.line}** ${finding.severity.toUpperCase()}: ${finding.message}${suggestions}`;
+      }).join('\n');
+
+      return `## [${report.macro}]
+
+${findings || 'No problems found.'}`;
+    }).join('\n\n');
+
+    const total = reports.reduce((sum, report) => sum + report.findings.length, 0);
+
+    return this.formatToolResult(`# Macro Lint Results
+
+Checked ${reports.length} macro(s), ${total} finding(s).
+
+${formattedReports}`, { macros: reports });
+  }
+
+  private async handleDeprecations(input: DeprecationToolInput) {
+    if (typeof input.config !== 'string') {
+      throw new ValidationError('The "config" argument must be the printer.cfg text', 'CheckConfigDeprecations');
+    }
+
+    if (configChangeLog.getEntries().length === 0) {
+      throw new NotFoundError('Config_Changes entries are not available', 'CheckConfigDeprecations');
+    }
+
+    let installDate: Date | undefined;
+    if (input.installDate) {
+      installDate = new Date(input.installDate);
+      if (isNaN(installDate.getTime())) {
+        throw new ValidationError(`Invalid install date: ${input.installDate}`, 'CheckConfigDeprecations');
+      }
+    } else if (input.installCommit) {
+      this.requireGitSource('CheckConfigDeprecations');
+      installDate = await gitSync.getCommitDate(input.installCommit);
+    }
+
+    const mainFile = input.mainFile || 'printer.cfg';
+    const parsed = configFileParser.parse(mainFile, { ...input.files, [mainFile]: input.config });
+    const report = configChangeLog.checkConfig(parsed, installDate);
+
+    const formattedFindings = report.findings.map(finding => {
+      const target = finding.command
+        ? `command \`${finding.command}\` in \`${finding.option}\``
+        : finding.option ? `\`${finding.option}\`` : 'section';
+      const status = finding.inEffect === undefined ? '' : finding.inEffect ? ' (in effect)' : ' (upcoming)';
+      const replacement = finding.entry.replacement ? ` → \`${finding.entry.replacement}\`` : '';
+      return `- **${finding.file}:${finding.line}** [${finding.section}] ${target}: ${finding.entry.kind} on ${finding.entry.date}${status}${replacement}
+  > ${finding.entry.text}`;
+    }).join('\n');
+
+    const installLine = report.installDate ? `\n**Install date**: ${report.installDate}` : '';
+
+    return this.formatToolResult(`# Config Deprecation Check
+${installLine}
+**Findings**: ${report.findings.length}
+
+${formattedFindings || 'No deprecated or changed options found.'}`, report);
+  }
+
+  private handleFindExampleConfig(input: ExampleConfigToolInput) {
+    const filter = input || {};
+    if (filter.year !== undefined && !Number.isInteger(filter.year)) {
+      throw new ValidationError('The "year" argument must be a whole number', 'FindExampleConfig');
+    }
+
+    const results = exampleConfigs.find(filter);
+
+    if (results.length === 0) {
+      return this.formatToolResult('No example configs match these filters. Try a broader query or fewer filters.', { configs: [] });
+    }
+
+    const formattedResults = results.map(example => {
+      const details = [
+        example.vendor ? `**Vendor**: ${example.vendor}` : '',
+        example.model ? `**Model**: ${example.model}` : '',
+        example.year ? `**Year**: ${example.year}` : '',
+        example.mcu ? `**MCU**: ${example.mcu}` : '',
+        example.board ? `**Board**: ${example.board}` : '',
+      ].filter(Boolean).join(' | ');
+
+      return `## ${example.id}
+**Kind**: ${example.kind}${details ? ` | ${details}` : ''}
+**Resource**: klipper://configs/${example.id}
+
+${example.description}`;
+    }).join('\n\n');
+
+    return this.formatToolResult(`# Example Configs
+
+Found ${results.length} config(s):
+
+${formattedResults}`, {
+      configs: results.map(({ content: _content, ...example }) => example),
+    });
+  }
+
+  private handleBoardPins(input: BoardPinToolInput) {
+    const { board, pin, role } = input || {};
+    if (!board && !pin) {
+      throw new ValidationError('Either the "board" or the "pin" argument is required', 'GetBoardPins');
+    }
+
+    let boards: BoardPinMap[] = pin ? boardPins.findPin(pin, role) : boardPins.findBoards(board || '');
+    if (pin && board) {
+      const allowed = new Set(boardPins.findBoards(board).map(match => match.board));
+      boards = boards.filter(match => allowed.has(match.board));
+    } else if (role) {
+      boards = boards.map(match => ({ ...match, pins: match.pins.filter(assignment => assignment.role === role) }));
+    }
+
+    if (boards.length === 0) {
+      if (pin) {
+        return this.formatToolResult(`No board configs assign ${pin}${role ? ` as ${role}` : ''}.`, { boards });
+      }
+      const suggestions = rankSuggestions(board || '', boardPins.getAllBoards().map(match => match.board));
+      throw new NotFoundError(`Board config not found: ${board}`, 'GetBoardPins', { board, suggestions });
+    }
+
+    const formattedBoards = boards.map(match => {
+      const rows = match.pins.map(assignment =>
+        `| ${assignment.role} | [${assignment.section}] ${assignment.option} | \`${assignment.raw}\` | ${assignment.line} |`
+      ).join('\n');
+
+      return `## ${match.board}
+${match.name ? `**Board**: ${match.name}\n` : ''}${match.mcu ? `**MCU**: ${match.mcu}\n` : ''}**File**: ${match.filePath}
+
+| Role | Option | Pin | Line |
+|------|--------|-----|------|
+${rows}`;
+    }).join('\n\n');
+
+    const title = pin ? `Boards using ${pin}${role ? ` as ${role}` : ''}` : 'Board Pins';
+
+    return this.formatToolResult(`# ${title}
+
+${formattedBoards}`, { boards });
+  }
+
+  private handleRelatedDocs(input: RelatedDocsToolInput) {
+    if (!input.document || typeof input.document !== 'string') {
+      throw new ValidationError('The "document" argument is required', 'GetRelatedDocs');
+    }
+
+    const doc = searchEngine.getDocument(input.document.replace(/\.md$/, ''));
+    if (!doc) {
+      const suggestions = rankSuggestions(input.document, searchEngine.getAllDocuments().map(d => d.id));
+      throw new NotFoundError(`Document not found: ${input.document}`, 'GetRelatedDocs', { document: input.document, suggestions });
+    }
+
+    const related = linkGraph.getRelated(doc.id, input.limit);
+    const outgoing = linkGraph.getOutgoing(doc.id);
+    const backlinks = linkGraph.getBacklinks(doc.id);
+
+    const formattedRelated = related.map(entry => {
+      const reasons = [
+        entry.linksTo ? 'linked from this document' : '',
+        entry.linkedFrom ? 'links to this document' : '',
+        entry.sharedTags.length > 0 ? `shared topics: ${entry.sharedTags.join(', ')}` : '',
+      ].filter(Boolean).join('; ');
+      return `- **${entry.title}** (klipper://docs/${entry.id}) - ${reasons}`;
+    }).join('\n');
+
+    const formatEdge = (id: string, anchor?: string, text?: string) =>
+      `- klipper://docs/${id}${anchor ? `#${anchor}` : ''}${text ? ` "${text}"` : ''}`;
+
+    return this.formatToolResult(`# Related to ${doc.title}
+
+${formattedRelated || 'No related documents found.'}
+
+## Links from this document (${outgoing.length})
+
+${outgoing.map(edge => formatEdge(edge.target, edge.anchor, edge.text)).join('\n') || 'None.'}
+
+## Links to this document (${backlinks.length})
+
+${backlinks.map(edge => formatEdge(edge.source, undefined, edge.text)).join('\n') || 'None.'}`, { document: doc.id, related, outgoing, backlinks });
+  }
+
+  /**
+   * Only the served docs: other directories are checked with the
+   * `--docs-health` CLI, so clients cannot make the server read arbitrary paths
+   */
+  private handleDocsHealth(input: DocsHealthToolInput) {
+    const { entryDocument } = input || {};
+
+    const report = docsHealthChecker.check(
+      new Map(searchEngine.getAllDocuments().map(doc => [doc.id, doc])),
+      { docsPath: docsSource.getDocsPath(), entryDocument }
+    );
+
+    const formattedSummary = Object.entries(report.summary)
+      .map(([type, count]) => `- **${type}**: ${count}`)
+      .join('\n');
+
+    return this.formatToolResult(`# Docs Health Report
+
+Checked ${report.documents} document(s), found ${report.issues.length} issue(s).
+
+${formattedSummary}`, report);
+  }
+
+  /**
+   * Tools that read the git history need the managed clone
+   */
+  private requireGitSource(context: string): void {
+    if (!(docsSource instanceof GitSync)) {
+      throw new ValidationError(`This needs the git history, but docs are served from DOCS_SOURCE=${config.source.mode}`, context);
+    }
+  }
+
+  private async handleDocsChanges(input: DocsChangesToolInput) {
+    this.requireGitSource('DocsChangesSince');
+    const { from, to, since, document } = input || {};
+    if (!from && !since) {
+      throw new ValidationError('Either "from" or "since" is required', 'DocsChangesSince');
+    }
+
+    let sinceDate: Date | undefined;
+    if (since) {
+      sinceDate = new Date(since);
+      if (isNaN(sinceDate.getTime())) {
+        throw new ValidationError(`Invalid date: ${since}`, 'DocsChangesSince');
+      }
+    }
+
+    // Compare up to the docs being served, not the tip of the tracked branch
+    const served = this.getVersion().corpus?.commit;
+    const report = await docsChangeTracker.compare({ from, to: to || served, since: sinceDate });
+    if (document) {
+      const id = document.replace(/\.md$/, '');
+      report.documents = report.documents.filter(doc => doc.id === id);
+    }
+
+    const formatHeadings = (label: string, headings: string[]) =>
+      headings.length > 0 ? `\n**${label}**: ${headings.map(heading => `"${heading}"`).join(', ')}` : '';
+
+    const formattedDocuments = report.documents.map(doc => {
+      const renamed = doc.previousPath ? ` (from ${doc.previousPath})` : '';
+      const diff = doc.diff.map(section => {
+        const link = section.anchor ? ` (klipper://docs/${doc.id}#${section.anchor})` : '';
+        return `#### ${section.heading || 'Introduction'}${link}\n\n\`\`\`diff\n${section.lines.join('\n')}\n\`\`\``;
+      }).join('\n\n');
+      const omitted = doc.omittedLines > 0 ? `\n\n_${doc.omittedLines} more changed lines not shown._` : '';
+
+      return `### ${doc.id} - ${doc.status}${renamed}
+${formatHeadings('Added headings', doc.addedHeadings)}${formatHeadings('Removed headings', doc.removedHeadings)}${formatHeadings('Modified headings', doc.modifiedHeadings)}
+
+${diff}${omitted}`;
+    }).join('\n\n');
+
+    const range = report.since
+      ? `since ${report.since} (${report.from.slice(0, 12)}..${report.to.slice(0, 12)})`
+      : `${report.from.slice(0, 12)}..${report.to.slice(0, 12)}`;
+
+    return this.formatToolResult(`# Docs Changes ${range}
+
+**Documents changed**: ${report.documents.length}
+
+${formattedDocuments || 'No documentation changes found.'}`, report);
+  }
+
+  private async handleDocHistory(input: DocHistoryToolInput) {
+    if (!input?.document || typeof input.document !== 'string') {
+      throw new ValidationError('The "document" argument is required', 'GetDocHistory');
+    }
+    this.requireGitSource('GetDocHistory');
+
+    const doc = searchEngine.getDocument(input.document.replace(/\.md$/, ''));
+    if (!doc) {
+      const suggestions = rankSuggestions(input.document, searchEngine.getAllDocuments().map(d => d.id));
+      throw new NotFoundError(`Document not found: ${input.document}`, 'GetDocHistory', { document: input.document, suggestions });
+    }
+
+    // Section line numbers come from the served docs, so blame at their commit
+    const history = await docHistoryReader.getHistory(doc, {
+      limit: input.limit,
+      anchor: input.anchor,
+      commit: this.getVersion().corpus?.commit,
+    });
+
+    const formatCommit = (commit: GitCommitInfo) =>
+      `- **${commit.date.toISOString().slice(0, 10)}** ${commit.subject} (${commit.hash.slice(0, 10)}, ${commit.author})`;
+
+    let sectionText = '';
+    if (history.section) {
+      const { section } = history;
+      const age = section.historyTruncated ? ' or earlier' : '';
+      sectionText = `
+
+## Section: ${section.heading}
+
+klipper://docs/${doc.id}#${section.anchor} (lines ${section.startLine}-${section.endLine})
+
+**Last changed**: ${section.lastChanged.date.toISOString().slice(0, 10)}${age}
+${formatCommit(section.lastChanged)}`;
+    }
+
+    return this.formatToolResult(`# History of ${doc.title}
+
+**File**: ${history.filePath}
+
+## Recent Commits
+
+${history.commits.map(formatCommit).join('\n') || 'No commits found.'}${sectionText}`, history);
   }
 
   private async handleStats() {
     const stats = searchEngine.getStats();
+    const states = Array.from(this.versions.values());
+    const versions = states.map(({ version, corpus }) => {
+      const ref = version.ref !== version.name ? ` (${version.ref})` : '';
+      const status = corpus ? `commit ${corpus.commit.slice(0, 12)}, ${corpus.docs.size} documents` : 'not indexed';
+      return `- **${version.name}**${ref}: ${status}`;
+    }).join('\n');
+
+    const output: IndexStatsOutput = {
+      ...stats,
+      versions: states.map(({ version, corpus }) => ({
+        name: version.name,
+        ref: version.ref,
+        indexed: corpus !== undefined,
+        commit: corpus?.commit,
+        documents: corpus?.docs.size,
+      })),
+    };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `# Documentation Index Statistics
+    return this.formatToolResult(`# Documentation Index Statistics
 
 - **Total Documents**: ${stats.totalDocuments}
 - **Total Words**: ${stats.totalWords.toLocaleString()}
 - **Sections**: ${stats.sections.length}
 - **Last Indexed**: ${stats.lastIndexed.toISOString()}
 
+## Versions
+
+${versions}
+
 ## Sections
 
-${stats.sections.map(s => `- ${s}`).join('\n')}`,
-        },
-      ],
-    };
+${stats.sections.map(s => `- ${s}`).join('\n')}`, output);
   }
 
   private getSetupPrompt(printerType?: string) {
@@ -603,21 +1738,10 @@ Look up the documentation for this configuration section and:
     logger.info('Initializing MCP Klipper Server', 'Server');
 
     try {
-      // Initialize Git repository
-      logger.info('Syncing Klipper repository...', 'Server');
-      await gitSync.initialize();
-
-      // Parse documentation
-      logger.info('Parsing documentation...', 'Server');
-      const docsPath = gitSync.getDocsPath();
-      const docs = await documentParser.parseDirectory(docsPath);
-
-      // Build search index
-      logger.info('Building search index...', 'Server');
-      searchEngine.buildIndex(docs);
+      await this.sync();
 
       logger.info('Server initialization complete', 'Server', {
-        documents: docs.size,
+        documents: searchEngine.getAllDocuments().length,
         sections: searchEngine.getSections().length,
       });
     } catch (error) {
@@ -627,19 +1751,261 @@ Look up the documentation for this configuration section and:
     }
   }
 
+  /**
+   * Sync every version. The default version must succeed; the others are
+   * logged and retried on the next sync when they fail.
+   */
+  async sync(): Promise<GitSyncResult> {
+    const [primary, ...others] = Array.from(this.versions.values());
+    if (!primary) {
+      throw new NotFoundError('No documentation versions configured', 'Server.sync');
+    }
+
+    const result = await this.syncVersion(primary);
+    for (const state of others) {
+      try {
+        await this.syncVersion(state);
+      } catch (error) {
+        logger.warn(`Failed to sync version ${state.version.name}`, 'Server', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Pull a version's checkout and bring its index up to date. Documents are
+   * parsed into a fresh parser off to the side: once a corpus is loaded, in
+   * memory or from the on-disk cache of a previous run, only the files in
+   * the git diff are re-parsed; without a diff everything is. The result is
+   * then swapped in by indexDocuments.
+   */
+  private async syncVersion(state: VersionState): Promise<GitSyncResult> {
+    logger.info(`Syncing Klipper repository (${state.version.name})...`, 'Server');
+    const syncResult = await docsSource.syncVersion(state.version);
+    const docsPath = docsSource.getDocsPath(state.version);
+
+    // Changes are only usable relative to the commit the base corpus was parsed from
+    const base = state.corpus || this.loadCachedCorpus(state);
+    let changes: GitFileChange[] | undefined;
+    if (base?.commit === syncResult.lastCommit) {
+      changes = [];
+    } else if (base && base.commit === syncResult.previousCommit) {
+      changes = syncResult.filesChanged;
+    }
+
+    const docChanges = changes && scopeChanges(changes, 'docs');
+    const configChanges = changes && scopeChanges(changes, 'config');
+    const reloadConfigs = state.primary && (!state.corpus || !configChanges || configChanges.length > 0);
+
+    const parser = new DocumentParser();
+    if (!base || !docChanges) {
+      logger.info('Parsing documentation...', 'Server');
+      const docs = await parser.parseDirectory(docsPath);
+      this.indexDocuments(state, { commit: syncResult.lastCommit, docs }, reloadConfigs);
+    } else if (docChanges.length > 0) {
+      logger.info(`Re-parsing ${docChanges.length} changed documents...`, 'Server');
+      parser.restore(Array.from(base.docs.values()));
+      const docs = await parser.applyChanges(docsPath, docChanges);
+      this.indexDocuments(state, { commit: syncResult.lastCommit, docs }, reloadConfigs);
+    } else if (base !== state.corpus) {
+      logger.info('Documentation unchanged since the cached index, skipping parsing', 'Server');
+      this.indexDocuments(state, { ...base, commit: syncResult.lastCommit }, reloadConfigs);
+      // Only files outside docs/ changed, so the cached index holds for the new commit
+      if (base.index && base.commit !== syncResult.lastCommit) {
+        state.cache.save(syncResult.lastCommit, base.docs, base.index);
+      }
+    } else {
+      logger.info('No documentation changes since the last sync', 'Server');
+      if (reloadConfigs) {
+        this.loadExampleConfigs(state.version);
+      }
+
+      // Keep the cache keyed to the checkout so the next start can use it
+      const serializedIndex = state.search.getSerializedIndex();
+      if (base.commit !== syncResult.lastCommit && serializedIndex) {
+        state.cache.save(syncResult.lastCommit, base.docs, serializedIndex);
+      }
+      base.commit = syncResult.lastCommit;
+    }
+
+    return syncResult;
+  }
+
+  private loadCachedCorpus(state: VersionState): DocumentCorpus | undefined {
+    const cached = state.cache.load();
+    if (!cached) {
+      return undefined;
+    }
+    return { commit: cached.commit, docs: new DocumentParser().restore(cached.documents), index: cached.index };
+  }
+
+  /**
+   * Rebuild everything derived from a parsed corpus and make it live. The
+   * search index is built in a fresh engine (or loaded from the corpus'
+   * cached index) and swapped in; every step is synchronous, so in-flight
+   * tool calls see either the old corpus or the new one, never a mix. Only
+   * the default version feeds the G-Code, status, changelog and example
+   * config tools.
+   */
+  private indexDocuments(state: VersionState, corpus: DocumentCorpus, reloadConfigs: boolean): void {
+    const { docs } = corpus;
+
+    // Categorize documents from the Overview.md table of contents and link them before indexing
+    state.taxonomy.build(docs);
+    if (state.primary) {
+      linkGraph.build(docs);
+    }
+
+    const engine = new SearchEngine();
+    if (corpus.index) {
+      engine.loadIndex(docs, corpus.index);
+    } else {
+      logger.info('Building search index...', 'Server');
+      engine.buildIndex(docs);
+    }
+    state.search.swap(engine);
+
+    // Extract the structured config schema
+    const configReference = docs.get('Config_Reference');
+    if (configReference) {
+      state.schema.parse(configReference);
+    }
+
+    if (state.primary) {
+      // Extract individual G-Code commands
+      const gcodeDoc = docs.get('G-Codes');
+      if (gcodeDoc) {
+        gcodeReference.parse(gcodeDoc);
+      }
+
+      // Extract printer status objects for macro authors
+      const statusDoc = docs.get('Status_Reference');
+      if (statusDoc) {
+        statusReference.parse(statusDoc);
+      }
+
+      // Extract dated breaking changes for the deprecation checker
+      const changesDoc = docs.get('Config_Changes');
+      if (changesDoc) {
+        configChangeLog.parse(changesDoc);
+      }
+    }
+
+    if (reloadConfigs) {
+      this.loadExampleConfigs(state.version);
+    }
+
+    state.corpus = { commit: corpus.commit, docs };
+
+    const serializedIndex = engine.getSerializedIndex();
+    if (!corpus.index && serializedIndex) {
+      state.cache.save(corpus.commit, docs, serializedIndex);
+    }
+  }
+
+  /**
+   * Index the example printer configs as a separate corpus
+   */
+  private loadExampleConfigs(version: DocsVersion): void {
+    exampleConfigs.loadDirectory(docsSource.getConfigPath(version));
+    boardPins.load(exampleConfigs.getAllConfigs());
+  }
+
+  /**
+   * Serve the shared index to a single client over the given transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.createServer().connect(transport);
+  }
+
   async start(): Promise<void> {
-    await this.initialize();
+    if (config.transport.mode === 'http') {
+      // Listen right away so /health can report progress while the index is built
+      this.httpTransport = new HttpTransportServer({
+        host: config.transport.host,
+        port: config.transport.port,
+        authToken: config.transport.authToken,
+        maxSessions: config.transport.maxSessions,
+        sessionIdleTimeout: config.transport.sessionIdleTimeout,
+        createServer: () => this.createServer(),
+        isReady: () => searchEngine.isReady(),
+      });
+      await this.httpTransport.listen();
+      await this.initialize();
+
+      logger.info('MCP Klipper Server started and serving over HTTP', 'Server');
+    } else {
+      await this.initialize();
+      await this.connect(new StdioServerTransport());
+
+      logger.info('MCP Klipper Server started and connected via stdio', 'Server');
+    }
 
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    // Keep the docs current; failures are logged and retried by the scheduler. Snapshots never change.
+    if (!(docsSource instanceof SnapshotDocsSource)) {
+      this.scheduler = new SyncScheduler(() => this.sync(), { interval: config.git.syncInterval });
+      this.scheduler.start();
+    }
+  }
+}
+
+/**
+ * Parse a docs directory with its own parser, so the served index is untouched
+ */
+async function checkDocsHealth(docsPath: string, entryDocument?: string): Promise<DocsHealthReport> {
+  const docs = await new DocumentParser().parseDirectory(docsPath);
+  return docsHealthChecker.check(docs, { docsPath, entryDocument });
+}
+
+/**
+ * CLI mode: `--docs-health [path]` prints the report as JSON and exits
+ * non-zero when errors are found. Without a path the synced repository is checked.
+ */
+async function runDocsHealthCli(docsPath?: string): Promise<void> {
+  // Keep stdout for the JSON report
+  logger.setLevel(LogLevel.WARN);
 
-    logger.info('MCP Klipper Server started and connected via stdio', 'Server');
+  if (!docsPath) {
+    await docsSource.syncVersion(docsSource.getDefaultVersion());
   }
+
+  const report = await checkDocsHealth(docsPath || docsSource.getDocsPath());
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  process.exitCode = report.issues.some(issue => issue.severity === 'error') ? 1 : 0;
+}
+
+/**
+ * CLI mode: `--build-snapshot <file>` packs the docs, example configs and a
+ * prebuilt index from the configured source into a tarball for DOCS_SOURCE=snapshot
+ */
+async function runBuildSnapshotCli(outputFile: string): Promise<void> {
+  const manifest = await buildSnapshot(docsSource, outputFile);
+  process.stdout.write(`${JSON.stringify({ file: outputFile, ...manifest }, null, 2)}\n`);
 }
 
-// Main entry point
-const server = new KlipperMCPServer();
-server.start().catch((error) => {
-  logger.error('Failed to start server', 'Main', { error: String(error) });
-  process.exit(1);
-});
+// Main entry point; importing the module (e.g. in tests) starts nothing
+if (require.main === module) {
+  const healthFlag = process.argv.indexOf('--docs-health');
+  const snapshotFlag = process.argv.indexOf('--build-snapshot');
+  if (snapshotFlag !== -1) {
+    const snapshotFile = process.argv[snapshotFlag + 1];
+    runBuildSnapshotCli(snapshotFile && !snapshotFile.startsWith('--') ? snapshotFile : config.source.snapshotPath).catch((error) => {
+      logger.error('Building the docs snapshot failed', 'Main', { error: String(error) });
+      process.exit(1);
+    });
+  } else if (healthFlag !== -1) {
+    const healthPath = process.argv[healthFlag + 1];
+    runDocsHealthCli(healthPath && !healthPath.startsWith('--') ? healthPath : undefined).catch((error) => {
+      logger.error('Docs health check failed', 'Main', { error: String(error) });
+      process.exit(2);
+    });
+  } else {
+    const server = new KlipperMCPServer();
+    server.start().catch((error) => {
+      logger.error('Failed to start server', 'Main', { error: String(error) });
+      process.exit(1);
+    });
+  }
+}
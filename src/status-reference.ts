@@ -0,0 +1,211 @@
+/**
+ * MCP Klipper Documentation Server - Status Reference
+ * Extracts printer status objects and attributes from Status_Reference.md
+ */
+
+import { ParsedDocument, StatusObject, StatusAttribute, StatusLookup } from './types.js';
+import { createAnchor } from './parser.js';
+import { closestMatches } from './suggest.js';
+import { logger } from './logger.js';
+
+const OBJECT_HEADING_PATTERN = /^##\s+(.+)$/;
+const ATTRIBUTE_PATTERN = /^\s*[-*]\s+((?:`[^`]+`[\s,]*(?:(?:and|or)\s+)?)+):\s*(.*)$/;
+
+export class StatusReference {
+  private objects: Map<string, StatusObject> = new Map();
+
+  parse(doc: ParsedDocument): Map<string, StatusObject> {
+    this.objects.clear();
+
+    let object: StatusObject | null = null;
+    let intro: string[] = [];
+    let attributes: StatusAttribute[] = [];
+    let inFence = false;
+
+    const finishObject = () => {
+      if (object) {
+        this.finalizeObject(object, intro);
+      }
+    };
+
+    for (const line of doc.content.split('\n')) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('```')) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      const headingMatch = OBJECT_HEADING_PATTERN.exec(line);
+      if (headingMatch && headingMatch[1]) {
+        finishObject();
+        const name = headingMatch[1].trim();
+        object = { name, anchor: createAnchor(name), summary: '', appliesTo: [], attributes: [] };
+        this.objects.set(name.toLowerCase(), object);
+        intro = [];
+        attributes = [];
+        continue;
+      }
+
+      if (!object) continue;
+
+      const attributeMatch = ATTRIBUTE_PATTERN.exec(line);
+      if (attributeMatch && attributeMatch[1]) {
+        const names = Array.from(attributeMatch[1].matchAll(/`([^`]+)`/g), match => (match[1] || '').trim());
+        attributes = names.filter(Boolean).map(name => ({ name, description: (attributeMatch[2] || '').trim() }));
+        object.attributes.push(...attributes);
+        continue;
+      }
+
+      if (!trimmed) {
+        attributes = [];
+        continue;
+      }
+
+      // Continuation of a wrapped attribute description, otherwise object prose
+      if (attributes.length > 0) {
+        attributes.forEach(attribute => {
+          attribute.description = `${attribute.description} ${trimmed}`.trim();
+        });
+      } else if (object.attributes.length === 0) {
+        intro.push(trimmed);
+      }
+    }
+
+    finishObject();
+
+    logger.info(`Extracted ${this.objects.size} printer status objects`, 'StatusReference');
+    return this.objects;
+  }
+
+  private finalizeObject(object: StatusObject, intro: string[]): void {
+    object.summary = intro.join(' ');
+
+    // Objects named in the introduction, e.g. "[heater_bed](Config_Reference.md#heater_bed)" or "`toolhead`"
+    const names = new Set<string>([object.name.split(/\s+/)[0] || object.name]);
+    for (const match of object.summary.matchAll(/\[([^\]]+)\]\([^)]*\)|`([^`]+)`/g)) {
+      const name = ((match[1] || match[2] || '').split(/\s+/)[0] || '').toLowerCase();
+      if (/^[a-z][a-z0-9_]*$/.test(name)) {
+        names.add(name);
+      }
+    }
+    object.appliesTo = Array.from(names);
+  }
+
+  /**
+   * Resolve an object name as used in macros (e.g. "heater_bed",
+   * "extruder1", "tmc2209 stepper_x") to its documented status object
+   */
+  findObject(name: string): StatusObject | undefined {
+    const key = name.trim().toLowerCase();
+    const first = key.split(/\s+/)[0] || key;
+
+    for (const candidate of [key, first, first.replace(/\d+$/, '')]) {
+      const direct = this.objects.get(candidate);
+      if (direct) {
+        return direct;
+      }
+
+      const applies = Array.from(this.objects.values()).find(object => object.appliesTo.includes(candidate));
+      if (applies) {
+        return applies;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a template reference such as "printer.toolhead.position" or
+   * 'printer["heater_bed"].target' to its object and attribute
+   */
+  resolve(reference: string): StatusLookup | undefined {
+    const tokens = this.tokenize(reference);
+    const objectName = tokens[0];
+    if (!objectName) {
+      return undefined;
+    }
+
+    const object = this.findObject(objectName);
+    if (!object) {
+      return undefined;
+    }
+
+    const pathTokens = tokens.slice(1);
+    if (pathTokens.length === 0) {
+      return { object, objectName };
+    }
+
+    return {
+      object,
+      objectName,
+      attribute: this.matchAttribute(object, pathTokens),
+      path: pathTokens.join('.')
+    };
+  }
+
+  private tokenize(reference: string): string[] {
+    const rest = reference.trim().replace(/^\{+\s*|\s*\}+$/g, '').replace(/^printer(?=[.[]|$)/, '');
+    const tokens: string[] = [];
+    const pattern = /\[\s*(["'])(.*?)\1\s*\]|\.?([^.[\]]+)/g;
+
+    for (const match of rest.matchAll(pattern)) {
+      const token = (match[2] ?? match[3] ?? '').trim();
+      if (token) {
+        tokens.push(token);
+      }
+    }
+
+    return tokens;
+  }
+
+  private matchAttribute(object: StatusObject, path: string[]): StatusAttribute | undefined {
+    // Prefer the longest documented prefix, so "position.x" resolves to "position"
+    for (let length = path.length; length > 0; length--) {
+      const candidate = path.slice(0, length).join('.');
+      const exact = object.attributes.find(attribute => attribute.name === candidate);
+      if (exact) {
+        return exact;
+      }
+
+      const placeholder = object.attributes.find(attribute => {
+        if (!attribute.name.includes('<')) return false;
+        const pattern = attribute.name
+          .split(/<[^>]+>/)
+          .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^.]+');
+        return new RegExp(`^${pattern}$`).test(candidate);
+      });
+      if (placeholder) {
+        return placeholder;
+      }
+    }
+
+    return undefined;
+  }
+
+  suggestObjects(reference: string, limit = 3): string[] {
+    const objectName = this.tokenize(reference)[0];
+    if (!objectName) {
+      return [];
+    }
+
+    const candidates = Array.from(this.objects.values()).flatMap(object => [object.name, ...object.appliesTo]);
+    return closestMatches(objectName.split(/\s+/)[0] || objectName, candidates, { limit });
+  }
+
+  getObject(name: string): StatusObject | undefined {
+    return this.objects.get(name.toLowerCase());
+  }
+
+  getAllObjects(): StatusObject[] {
+    return Array.from(this.objects.values());
+  }
+
+  clear(): void {
+    this.objects.clear();
+  }
+}
+
+export const statusReference = new StatusReference();
@@ -0,0 +1,93 @@
+/**
+ * MCP Klipper Documentation Server - Suggestions
+ * Edit-distance and token-overlap helpers for "did you mean" style suggestions
+ */
+
+export interface SuggestOptions {
+  limit?: number;
+  maxDistance?: number;
+}
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (current[j - 1] ?? 0) + 1,
+        (previous[j] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Return the candidates closest to the target, nearest first. The default
+ * distance cut-off scales with the target length so short names only
+ * tolerate small typos.
+ */
+export function closestMatches(target: string, candidates: string[], options: SuggestOptions = {}): string[] {
+  const limit = options.limit ?? 3;
+  const normalized = target.toLowerCase();
+  const maxDistance = options.maxDistance ?? Math.max(2, Math.floor(normalized.length / 3));
+
+  return Array.from(new Set(candidates))
+    .map(candidate => ({ candidate, distance: levenshtein(normalized, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Split a name such as "stepper_x", "Bed_Mesh" or "bed-mesh" into
+ * lowercase word tokens
+ */
+export function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Rank candidates by combining edit distance (ignoring separators, so
+ * "bedmesh" matches "bed_mesh") with the share of word tokens in common.
+ * Candidates that are neither close in spelling nor share a token are
+ * dropped.
+ */
+export function rankSuggestions(target: string, candidates: string[], options: SuggestOptions = {}): string[] {
+  const limit = options.limit ?? 5;
+  const compactTarget = tokenize(target).join('');
+  const targetTokens = new Set(tokenize(target));
+  const maxDistance = options.maxDistance ?? Math.max(2, Math.floor(compactTarget.length / 3));
+
+  if (!compactTarget) {
+    return [];
+  }
+
+  return Array.from(new Set(candidates))
+    .map(candidate => {
+      const tokens = tokenize(candidate);
+      const compact = tokens.join('');
+      const distance = levenshtein(compactTarget, compact);
+      const shared = tokens.filter(token => targetTokens.has(token)).length;
+      const overlap = shared / Math.max(targetTokens.size, tokens.length, 1);
+      const similarity = 1 - distance / Math.max(compactTarget.length, compact.length, 1);
+      return { candidate, distance, overlap, score: (similarity + overlap) / 2 };
+    })
+    .filter(({ distance, overlap }) => distance <= maxDistance || overlap > 0)
+    .sort((a, b) => b.score - a.score || a.candidate.length - b.candidate.length || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,93 @@
+/**
+ * MCP Klipper Documentation Server - Sync Scheduler
+ * Re-runs the repository sync on an interval, backing off after failures
+ */
+
+import { logger } from './logger.js';
+
+const DEFAULT_RETRY_DELAY = 60000; // 1 minute
+
+export interface SyncSchedulerOptions {
+  /** Delay between successful syncs in milliseconds */
+  interval: number;
+  /** First retry delay after a failure; doubled on every further failure, up to the interval */
+  retryDelay?: number;
+}
+
+export class SyncScheduler {
+  private task: () => Promise<unknown>;
+  private interval: number;
+  private retryDelay: number;
+  private timer: NodeJS.Timeout | null = null;
+  private failures = 0;
+  private running = false;
+
+  constructor(task: () => Promise<unknown>, options: SyncSchedulerOptions) {
+    this.task = task;
+    this.interval = options.interval;
+    this.retryDelay = Math.min(options.retryDelay ?? DEFAULT_RETRY_DELAY, options.interval);
+  }
+
+  start(): void {
+    if (this.timer || this.running) {
+      return;
+    }
+    logger.info(`Scheduling repository sync every ${Math.round(this.interval / 1000)}s`, 'SyncScheduler');
+    this.schedule(this.interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = false;
+  }
+
+  /**
+   * Consecutive failed runs since the last successful one
+   */
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Delay before the next run: the interval after a success, otherwise
+   * exponential backoff from the retry delay, capped at the interval
+   */
+  getNextDelay(): number {
+    if (this.failures === 0) {
+      return this.interval;
+    }
+    return Math.min(this.retryDelay * 2 ** (this.failures - 1), this.interval);
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.run();
+    }, delay);
+    // A pending sync must not keep the process alive on its own
+    this.timer.unref();
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+
+    try {
+      await this.task();
+      this.failures = 0;
+    } catch (error) {
+      this.failures++;
+      logger.warn(`Scheduled sync failed (${this.failures} in a row), retrying in ${Math.round(this.getNextDelay() / 1000)}s`, 'SyncScheduler', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    // stop() may have been called while the sync was running
+    if (this.running) {
+      this.running = false;
+      this.schedule(this.getNextDelay());
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * MCP Klipper Documentation Server - Taxonomy
+ * Builds the documentation category tree from the table of contents in Overview.md
+ */
+
+import { ParsedDocument, DocumentNode, TaxonomyNode } from './types.js';
+import { createAnchor } from './parser.js';
+import { resolveDocumentLink } from './link-graph.js';
+import { logger } from './logger.js';
+
+const OVERVIEW_DOCUMENT = 'Overview';
+
+export class DocTaxonomy {
+  private categories: TaxonomyNode[] = [];
+
+  /**
+   * Read the categorized table of contents in Overview.md: "##" headings are
+   * categories, "###" headings and entries with nested lists are
+   * subcategories. Listed documents take their section and subsection from
+   * the tree; documents that are not listed keep the parser's filename
+   * heuristics.
+   */
+  build(docs: Map<string, ParsedDocument>, overviewId = OVERVIEW_DOCUMENT): TaxonomyNode[] {
+    this.categories = [];
+
+    // Documents may have been placed by a previous table of contents, possibly in a cached index
+    docs.forEach(doc => {
+      if (doc.defaultSection !== undefined) {
+        doc.section = doc.defaultSection;
+        doc.subsection = doc.defaultSubsection;
+      }
+    });
+
+    const overview = docs.get(overviewId);
+    if (!overview?.nodes) {
+      logger.warn(`${overviewId} not found, using filename heuristics for sections`, 'DocTaxonomy');
+      return this.categories;
+    }
+
+    const placed = new Set<string>([overviewId]);
+    let category: TaxonomyNode | undefined;
+    let subcategory: TaxonomyNode | undefined;
+
+    for (const node of overview.nodes) {
+      if (node.type === 'heading' && node.depth === 2) {
+        category = { id: createAnchor(node.text), kind: 'category', title: node.text, children: [] };
+        subcategory = undefined;
+        this.categories.push(category);
+      } else if (node.type === 'heading' && node.depth === 3 && category) {
+        subcategory = { id: createAnchor(node.text), kind: 'subcategory', title: node.text, children: [] };
+        category.children.push(subcategory);
+      } else if (node.type === 'list' && category) {
+        (subcategory || category).children.push(...this.buildEntries(node, overviewId, docs, placed));
+      }
+    }
+
+    this.categories = this.categories.filter(entry => entry.children.length > 0);
+    this.categories.forEach(entry => this.assign(entry.children, entry.id, undefined, docs));
+
+    logger.info(
+      `Built taxonomy with ${this.categories.length} categories covering ${placed.size - 1} of ${docs.size} documents`,
+      'DocTaxonomy'
+    );
+    return this.categories;
+  }
+
+  /**
+   * Turn list items into entries. An item linking to a document becomes a
+   * document entry (only the first time the document is listed); an item
+   * without a document that has nested items becomes a subcategory.
+   */
+  private buildEntries(
+    list: DocumentNode,
+    overviewId: string,
+    docs: Map<string, ParsedDocument>,
+    placed: Set<string>
+  ): TaxonomyNode[] {
+    const entries: TaxonomyNode[] = [];
+
+    for (const item of list.children || []) {
+      const children = item.children || [];
+      const paragraph = children.find(child => child.type === 'paragraph');
+      const link = (paragraph?.links || []).find(entry => !entry.image);
+      const text = paragraph?.text.trim() || '';
+      const title = link?.text || text;
+
+      const nested = children
+        .filter(child => child.type === 'list')
+        .flatMap(child => this.buildEntries(child, overviewId, docs, placed));
+
+      const target = link ? resolveDocumentLink(overviewId, link.href)?.target : undefined;
+      if (target && docs.has(target) && !placed.has(target)) {
+        placed.add(target);
+        entries.push({
+          id: target,
+          kind: 'document',
+          title,
+          documentId: target,
+          description: this.extractDescription(text, title),
+          children: nested
+        });
+      } else if (nested.length > 0 && title) {
+        entries.push({ id: createAnchor(title), kind: 'subcategory', title, children: nested });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * The text after the link in entries such as "[FAQ](FAQ.md): Frequently asked questions."
+   */
+  private extractDescription(text: string, title: string): string | undefined {
+    if (!text.startsWith(title)) {
+      return undefined;
+    }
+    const description = text.slice(title.length).replace(/^\s*[:\-–]\s*/, '').trim();
+    return description || undefined;
+  }
+
+  private assign(
+    nodes: TaxonomyNode[],
+    section: string,
+    subsection: string | undefined,
+    docs: Map<string, ParsedDocument>
+  ): void {
+    for (const node of nodes) {
+      const doc = node.documentId ? docs.get(node.documentId) : undefined;
+      if (doc) {
+        doc.section = section;
+        doc.subsection = subsection;
+      }
+      this.assign(node.children, section, node.children.length > 0 ? node.id : subsection, docs);
+    }
+  }
+
+  getCategories(): TaxonomyNode[] {
+    return this.categories;
+  }
+
+  /**
+   * Find a category by id ("installation-and-configuration") or title
+   */
+  findCategory(name: string): TaxonomyNode | undefined {
+    const key = name.trim().toLowerCase();
+    return this.categories.find(category => category.id === key || category.title.toLowerCase() === key);
+  }
+
+  /**
+   * Find a subcategory (or document entry) within a category by id or title
+   */
+  findNode(category: TaxonomyNode, name: string): TaxonomyNode | undefined {
+    const key = name.trim().toLowerCase();
+    for (const node of category.children) {
+      if (node.id.toLowerCase() === key || node.title.toLowerCase() === key) {
+        return node;
+      }
+      const nested = this.findNode(node, name);
+      if (nested) {
+        return nested;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Entries that group other entries, in table of contents order
+   */
+  getSubcategories(node: TaxonomyNode): TaxonomyNode[] {
+    return node.children.flatMap(child => [
+      ...(child.children.length > 0 ? [child] : []),
+      ...this.getSubcategories(child)
+    ]);
+  }
+
+  /**
+   * IDs of every document below a node, including the node itself
+   */
+  getDocumentIds(node: TaxonomyNode): string[] {
+    return [
+      ...(node.documentId ? [node.documentId] : []),
+      ...node.children.flatMap(child => this.getDocumentIds(child))
+    ];
+  }
+
+  clear(): void {
+    this.categories = [];
+  }
+}
+
+export const docTaxonomy = new DocTaxonomy();
@@ -0,0 +1,619 @@
+/**
+ * MCP Klipper Documentation Server - Tool Output
+ * JSON Schemas of the structured content returned by each tool, and the
+ * records built from indexed documents and search results
+ */
+
+import {
+  ParsedDocument,
+  SearchResult,
+  DocumentSummary,
+  SearchToolOutput
+} from './types.js';
+
+interface ToolOutputSchema {
+  type: 'object';
+  properties: Record<string, object>;
+  required?: string[];
+  $defs?: Record<string, object>;
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+const dateTime = { type: 'string', format: 'date-time' };
+const severity = { type: 'string', enum: ['error', 'warning'] };
+
+const documentSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    section: { type: 'string' },
+    subsection: { type: 'string' },
+    filePath: { type: 'string', description: 'Path relative to the docs directory' },
+    lastModified: dateTime,
+    metadata: {
+      type: 'object',
+      properties: {
+        wordCount: { type: 'number' },
+        readingTime: { type: 'number', description: 'Minutes' },
+        difficulty: { type: 'string', enum: ['beginner', 'intermediate', 'advanced'] },
+        tags: stringArray,
+        relatedDocuments: stringArray,
+        headings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              level: { type: 'number' },
+              text: { type: 'string' },
+              anchor: { type: 'string' },
+            },
+            required: ['level', 'text', 'anchor'],
+          },
+        },
+      },
+      required: ['wordCount', 'readingTime', 'difficulty', 'tags', 'relatedDocuments', 'headings'],
+    },
+  },
+  required: ['id', 'title', 'section', 'filePath', 'lastModified', 'metadata'],
+};
+
+const indexStatsProperties = {
+  totalDocuments: { type: 'number' },
+  totalWords: { type: 'number' },
+  lastIndexed: dateTime,
+  sections: stringArray,
+};
+
+const taxonomyNodeSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    kind: { type: 'string', enum: ['category', 'subcategory', 'document'] },
+    title: { type: 'string' },
+    documentId: { type: 'string' },
+    description: { type: 'string' },
+    children: { type: 'array', items: { $ref: '#/$defs/taxonomyNode' } },
+  },
+  required: ['id', 'kind', 'title', 'children'],
+};
+
+const configOptionProperties = {
+  name: { type: 'string' },
+  type: { type: 'string', enum: ['int', 'float', 'pin', 'bool', 'list', 'string'] },
+  default: { type: 'string' },
+  required: { type: 'boolean' },
+  description: stringArray,
+};
+
+const configSectionSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    heading: { type: 'string' },
+    anchor: { type: 'string' },
+    examples: stringArray,
+    options: {
+      type: 'array',
+      items: { type: 'object', properties: configOptionProperties, required: ['name', 'type', 'required', 'description'] },
+    },
+  },
+  required: ['name', 'heading', 'anchor', 'examples', 'options'],
+};
+
+const gcodeCommandSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    usage: stringArray,
+    parameters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, value: { type: 'string' }, optional: { type: 'boolean' } },
+        required: ['name', 'value', 'optional'],
+      },
+    },
+    configSection: { type: 'string' },
+    group: { type: 'string' },
+    anchor: { type: 'string' },
+    description: { type: 'string' },
+  },
+  required: ['name', 'usage', 'parameters', 'group', 'anchor', 'description'],
+};
+
+const statusAttributeSchema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, description: { type: 'string' } },
+  required: ['name', 'description'],
+};
+
+const statusObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    anchor: { type: 'string' },
+    summary: { type: 'string' },
+    appliesTo: stringArray,
+    attributes: { type: 'array', items: statusAttributeSchema },
+  },
+  required: ['name', 'anchor', 'summary', 'appliesTo', 'attributes'],
+};
+
+const linkEdgeSchema = {
+  type: 'object',
+  properties: {
+    source: { type: 'string' },
+    target: { type: 'string' },
+    anchor: { type: 'string' },
+    text: { type: 'string' },
+  },
+  required: ['source', 'target', 'text'],
+};
+
+const commitSchema = {
+  type: 'object',
+  properties: {
+    hash: { type: 'string' },
+    date: dateTime,
+    author: { type: 'string' },
+    subject: { type: 'string' },
+  },
+  required: ['hash', 'date', 'author', 'subject'],
+};
+
+/**
+ * outputSchema of every tool, keyed by tool name. Each handler returns
+ * structuredContent matching its schema next to the markdown.
+ */
+export const toolOutputSchemas = {
+  search_klipper_docs: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      version: { type: 'string' },
+      section: { type: 'string' },
+      totalResults: { type: 'number' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            document: documentSummarySchema,
+            score: { type: 'number', description: 'Relevance between 0 and 1' },
+            snippet: { type: 'string' },
+            highlights: stringArray,
+            sections: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  anchor: { type: 'string' },
+                  headingPath: stringArray,
+                  link: { type: 'string' },
+                  score: { type: 'number' },
+                  snippet: { type: 'string' },
+                },
+                required: ['anchor', 'headingPath', 'link', 'score', 'snippet'],
+              },
+            },
+          },
+          required: ['document', 'score', 'snippet', 'highlights', 'sections'],
+        },
+      },
+    },
+    required: ['query', 'version', 'totalResults', 'results'],
+  },
+  get_config_option: {
+    type: 'object',
+    properties: {
+      option: { type: 'string' },
+      version: { type: 'string' },
+      match: { type: 'string', enum: ['section', 'option', 'document'] },
+      source: { type: 'string', description: 'ID of the document the answer was taken from' },
+      section: configSectionSchema,
+      options: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { section: { type: 'string' }, ...configOptionProperties },
+          required: ['section', 'name', 'type', 'required', 'description'],
+        },
+      },
+      content: { type: 'string' },
+      suggestions: stringArray,
+    },
+    required: ['option', 'version', 'match', 'source', 'suggestions'],
+  },
+  browse_docs: {
+    type: 'object',
+    $defs: { taxonomyNode: taxonomyNodeSchema },
+    properties: {
+      version: { type: 'string' },
+      view: { type: 'string', enum: ['overview', 'category', 'section', 'document'] },
+      section: { type: 'string' },
+      node: { $ref: '#/$defs/taxonomyNode' },
+      document: documentSummarySchema,
+      content: { type: 'string' },
+      documents: { type: 'array', items: documentSummarySchema },
+      categories: { type: 'array', items: { $ref: '#/$defs/taxonomyNode' } },
+      otherSections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { section: { type: 'string' }, documents: { type: 'number' } },
+          required: ['section', 'documents'],
+        },
+      },
+      stats: { type: 'object', properties: indexStatsProperties, required: Object.keys(indexStatsProperties) },
+    },
+    required: ['version', 'view'],
+  },
+  validate_printer_config: {
+    type: 'object',
+    properties: {
+      valid: { type: 'boolean' },
+      sectionsChecked: { type: 'number' },
+      findings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['unknown-section', 'unknown-option', 'missing-required', 'invalid-type'] },
+            severity,
+            section: { type: 'string' },
+            option: { type: 'string' },
+            file: { type: 'string' },
+            line: { type: 'number' },
+            message: { type: 'string' },
+            suggestions: stringArray,
+            docLink: { type: 'string' },
+          },
+          required: ['type', 'severity', 'section', 'file', 'line', 'message', 'suggestions'],
+        },
+      },
+    },
+    required: ['valid', 'sectionsChecked', 'findings'],
+  },
+  parse_printer_config: {
+    type: 'object',
+    properties: {
+      mainFile: { type: 'string' },
+      files: stringArray,
+      sections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            file: { type: 'string' },
+            line: { type: 'number' },
+            options: {
+              type: 'object',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  value: { type: 'string' },
+                  file: { type: 'string' },
+                  line: { type: 'number' },
+                  autosave: { type: 'boolean' },
+                },
+                required: ['value', 'file', 'line', 'autosave'],
+              },
+            },
+          },
+          required: ['name', 'file', 'line', 'options'],
+        },
+      },
+      warnings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { file: { type: 'string' }, line: { type: 'number' }, message: { type: 'string' } },
+          required: ['file', 'line', 'message'],
+        },
+      },
+    },
+    required: ['mainFile', 'files', 'sections', 'warnings'],
+  },
+  get_gcode_command: {
+    type: 'object',
+    properties: {
+      command: gcodeCommandSchema,
+      commands: { type: 'array', items: gcodeCommandSchema },
+      suggestions: stringArray,
+    },
+  },
+  get_status_attribute: {
+    type: 'object',
+    properties: {
+      object: statusObjectSchema,
+      path: { type: 'string', description: 'Attribute path below the object' },
+      attribute: statusAttributeSchema,
+      suggestions: stringArray,
+      objects: { ...stringArray, description: 'All documented objects, when the reference did not match one' },
+    },
+  },
+  lint_gcode_macro: {
+    type: 'object',
+    properties: {
+      macros: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            macro: { type: 'string' },
+            findings: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: {
+                    type: 'string',
+                    enum: ['unknown-status-object', 'unknown-status-attribute', 'unknown-command', 'param-without-default'],
+                  },
+                  severity,
+                  line: { type: 'number' },
+                  reference: { type: 'string' },
+                  message: { type: 'string' },
+                  suggestions: stringArray,
+                },
+                required: ['type', 'severity', 'line', 'reference', 'message', 'suggestions'],
+              },
+            },
+          },
+          required: ['macro', 'findings'],
+        },
+      },
+    },
+    required: ['macros'],
+  },
+  check_config_deprecations: {
+    type: 'object',
+    properties: {
+      installDate: { type: 'string' },
+      findings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            section: { type: 'string' },
+            option: { type: 'string' },
+            command: { type: 'string' },
+            file: { type: 'string' },
+            line: { type: 'number' },
+            entry: {
+              type: 'object',
+              properties: {
+                date: { type: 'string' },
+                kind: { type: 'string', enum: ['removed', 'renamed', 'deprecated', 'changed'] },
+                text: { type: 'string' },
+                sections: stringArray,
+                options: stringArray,
+                commands: stringArray,
+                replacement: { type: 'string' },
+              },
+              required: ['date', 'kind', 'text', 'sections', 'options', 'commands'],
+            },
+            inEffect: { type: 'boolean' },
+          },
+          required: ['section', 'file', 'line', 'entry'],
+        },
+      },
+    },
+    required: ['findings'],
+  },
+  find_example_config: {
+    type: 'object',
+    properties: {
+      configs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            kind: { type: 'string', enum: ['printer', 'generic', 'sample'] },
+            filePath: { type: 'string' },
+            vendor: { type: 'string' },
+            model: { type: 'string' },
+            year: { type: 'number' },
+            mcu: { type: 'string' },
+            board: { type: 'string' },
+            description: { type: 'string' },
+            sections: stringArray,
+          },
+          required: ['id', 'kind', 'filePath', 'description', 'sections'],
+        },
+      },
+    },
+    required: ['configs'],
+  },
+  get_board_pins: {
+    type: 'object',
+    properties: {
+      boards: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            board: { type: 'string' },
+            name: { type: 'string' },
+            mcu: { type: 'string' },
+            filePath: { type: 'string' },
+            pins: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  section: { type: 'string' },
+                  option: { type: 'string' },
+                  role: { type: 'string', enum: ['step', 'dir', 'enable', 'endstop', 'heater', 'thermistor', 'fan', 'other'] },
+                  pin: { type: 'string' },
+                  raw: { type: 'string' },
+                  pullup: { type: 'boolean' },
+                  invert: { type: 'boolean' },
+                  line: { type: 'number' },
+                },
+                required: ['section', 'option', 'role', 'pin', 'raw', 'pullup', 'invert', 'line'],
+              },
+            },
+          },
+          required: ['board', 'filePath', 'pins'],
+        },
+      },
+    },
+    required: ['boards'],
+  },
+  get_related_docs: {
+    type: 'object',
+    properties: {
+      document: { type: 'string' },
+      related: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            score: { type: 'number' },
+            linksTo: { type: 'boolean' },
+            linkedFrom: { type: 'boolean' },
+            sharedTags: stringArray,
+          },
+          required: ['id', 'title', 'score', 'linksTo', 'linkedFrom', 'sharedTags'],
+        },
+      },
+      outgoing: { type: 'array', items: linkEdgeSchema },
+      backlinks: { type: 'array', items: linkEdgeSchema },
+    },
+    required: ['document', 'related', 'outgoing', 'backlinks'],
+  },
+  docs_health_report: {
+    type: 'object',
+    properties: {
+      docsPath: { type: 'string' },
+      entryDocument: { type: 'string' },
+      documents: { type: 'number' },
+      summary: { type: 'object', additionalProperties: { type: 'number' } },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string' },
+            severity,
+            file: { type: 'string' },
+            line: { type: 'number' },
+            target: { type: 'string' },
+            message: { type: 'string' },
+          },
+          required: ['type', 'severity', 'file', 'message'],
+        },
+      },
+    },
+    required: ['entryDocument', 'documents', 'summary', 'issues'],
+  },
+  docs_changes_since: {
+    type: 'object',
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      since: { type: 'string' },
+      documents: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            path: { type: 'string' },
+            status: { type: 'string', enum: ['added', 'modified', 'deleted', 'renamed'] },
+            previousPath: { type: 'string' },
+            addedHeadings: stringArray,
+            removedHeadings: stringArray,
+            modifiedHeadings: stringArray,
+            diff: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { heading: { type: 'string' }, anchor: { type: 'string' }, lines: stringArray },
+                required: ['heading', 'anchor', 'lines'],
+              },
+            },
+            omittedLines: { type: 'number' },
+          },
+          required: ['id', 'path', 'status', 'addedHeadings', 'removedHeadings', 'modifiedHeadings', 'diff', 'omittedLines'],
+        },
+      },
+    },
+    required: ['from', 'to', 'documents'],
+  },
+  get_doc_history: {
+    type: 'object',
+    properties: {
+      document: { type: 'string' },
+      filePath: { type: 'string', description: 'Path relative to the repository root' },
+      commits: { type: 'array', items: commitSchema },
+      section: {
+        type: 'object',
+        properties: {
+          anchor: { type: 'string' },
+          heading: { type: 'string' },
+          startLine: { type: 'number' },
+          endLine: { type: 'number' },
+          lastChanged: commitSchema,
+          historyTruncated: { type: 'boolean' },
+        },
+        required: ['anchor', 'heading', 'startLine', 'endLine', 'lastChanged', 'historyTruncated'],
+      },
+    },
+    required: ['document', 'filePath', 'commits'],
+  },
+  get_index_stats: {
+    type: 'object',
+    properties: {
+      ...indexStatsProperties,
+      versions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            ref: { type: 'string' },
+            indexed: { type: 'boolean' },
+            commit: { type: 'string' },
+            documents: { type: 'number' },
+          },
+          required: ['name', 'ref', 'indexed'],
+        },
+      },
+    },
+    required: [...Object.keys(indexStatsProperties), 'versions'],
+  },
+} satisfies Record<string, ToolOutputSchema>;
+
+/**
+ * Drop the content and parse tree, which can run to hundreds of kilobytes
+ */
+export function summarizeDocument({
+  content: _content,
+  nodes: _nodes,
+  chunks: _chunks,
+  defaultSection: _defaultSection,
+  defaultSubsection: _defaultSubsection,
+  ...summary
+}: ParsedDocument): DocumentSummary {
+  return summary;
+}
+
+export function toSearchOutput(query: string, version: string, results: SearchResult[], section?: string): SearchToolOutput {
+  return {
+    query,
+    version,
+    section,
+    totalResults: results.length,
+    results: results.map(({ document, metadata: _metadata, ...result }) => ({
+      ...result,
+      document: summarizeDocument(document),
+    })),
+  };
+}
@@ -10,9 +10,14 @@ export interface ParsedDocument {
   content: string;
   section: string;
   subsection?: string;
+  // Section from the filename heuristics, before the taxonomy placed the document
+  defaultSection?: string;
+  defaultSubsection?: string;
   filePath: string;
   lastModified: Date;
   metadata: DocumentMetadata;
+  nodes?: DocumentNode[];
+  chunks?: DocumentChunk[];
 }
 
 export interface DocumentMetadata {
@@ -30,15 +35,337 @@ export interface DocumentHeading {
   anchor: string;
 }
 
+export type DocumentNodeType = 'heading' | 'paragraph' | 'code' | 'table' | 'list' | 'list_item' | 'blockquote' | 'html';
+
+export interface DocumentNode {
+  type: DocumentNodeType;
+  text: string;
+  line?: number;
+  depth?: number;
+  anchor?: string;
+  lang?: string;
+  ordered?: boolean;
+  rows?: string[][];
+  links?: DocumentLink[];
+  children?: DocumentNode[];
+}
+
+export interface DocumentLink {
+  href: string;
+  text: string;
+  image?: boolean;
+  line?: number;
+}
+
+export interface DocumentLinkEdge {
+  source: string;
+  target: string;
+  anchor?: string;
+  text: string;
+}
+
+export interface RelatedDocument {
+  id: string;
+  title: string;
+  score: number;
+  linksTo: boolean;
+  linkedFrom: boolean;
+  sharedTags: string[];
+}
+
+export interface DocumentChunk {
+  anchor: string;
+  level: number;
+  headingPath: string[];
+  content: string;
+}
+
+// Config Schema Types
+export type ConfigOptionType = 'int' | 'float' | 'pin' | 'bool' | 'list' | 'string';
+
+export interface ConfigOptionSchema {
+  name: string;
+  type: ConfigOptionType;
+  default?: string;
+  required: boolean;
+  description: string[];
+}
+
+export interface ConfigSectionSchema {
+  name: string;
+  heading: string;
+  anchor: string;
+  examples: string[];
+  options: ConfigOptionSchema[];
+}
+
+// Config File Types
+export interface ConfigFileValue {
+  value: string;
+  file: string;
+  line: number;
+  autosave: boolean;
+}
+
+export interface ConfigFileSection {
+  name: string;
+  file: string;
+  line: number;
+  options: Record<string, ConfigFileValue>;
+}
+
+export interface ConfigParseWarning {
+  file: string;
+  line: number;
+  message: string;
+}
+
+export interface ParsedPrinterConfig {
+  mainFile: string;
+  files: string[];
+  sections: ConfigFileSection[];
+  warnings: ConfigParseWarning[];
+}
+
+// Config Validation Types
+export type ConfigFindingType = 'unknown-section' | 'unknown-option' | 'missing-required' | 'invalid-type';
+
+export interface ConfigFinding {
+  type: ConfigFindingType;
+  severity: 'error' | 'warning';
+  section: string;
+  option?: string;
+  file: string;
+  line: number;
+  message: string;
+  suggestions: string[];
+  docLink?: string;
+}
+
+export interface ConfigValidationReport {
+  valid: boolean;
+  sectionsChecked: number;
+  findings: ConfigFinding[];
+}
+
+// G-Code Reference Types
+export interface GCodeParameter {
+  name: string;
+  value: string;
+  optional: boolean;
+}
+
+export interface GCodeCommand {
+  name: string;
+  usage: string[];
+  parameters: GCodeParameter[];
+  configSection?: string;
+  group: string;
+  anchor: string;
+  description: string;
+}
+
+// Status Reference Types
+export interface StatusAttribute {
+  name: string;
+  description: string;
+}
+
+export interface StatusObject {
+  name: string;
+  anchor: string;
+  summary: string;
+  appliesTo: string[];
+  attributes: StatusAttribute[];
+}
+
+export interface StatusLookup {
+  object: StatusObject;
+  objectName: string;
+  attribute?: StatusAttribute;
+  path?: string;
+}
+
+// Macro Lint Types
+export type MacroFindingType = 'unknown-status-object' | 'unknown-status-attribute' | 'unknown-command' | 'param-without-default';
+
+export interface MacroFinding {
+  type: MacroFindingType;
+  severity: 'error' | 'warning';
+  line: number;
+  reference: string;
+  message: string;
+  suggestions: string[];
+}
+
+export interface MacroLintReport {
+  macro: string;
+  findings: MacroFinding[];
+}
+
+// Config Change Types
+export type ConfigChangeKind = 'removed' | 'renamed' | 'deprecated' | 'changed';
+
+export interface ConfigChangeEntry {
+  date: string;
+  kind: ConfigChangeKind;
+  text: string;
+  sections: string[];
+  options: string[];
+  commands: string[];
+  replacement?: string;
+}
+
+export interface DeprecationFinding {
+  section: string;
+  option?: string;
+  command?: string;
+  file: string;
+  line: number;
+  entry: ConfigChangeEntry;
+  inEffect?: boolean;
+}
+
+export interface DeprecationReport {
+  installDate?: string;
+  findings: DeprecationFinding[];
+}
+
+// Example Config Types
+export type ExampleConfigKind = 'printer' | 'generic' | 'sample';
+
+export interface ExampleConfig {
+  id: string;
+  kind: ExampleConfigKind;
+  filePath: string;
+  vendor?: string;
+  model?: string;
+  year?: number;
+  mcu?: string;
+  board?: string;
+  description: string;
+  sections: string[];
+  content: string;
+}
+
+export interface ExampleConfigFilter {
+  query?: string;
+  kind?: ExampleConfigKind;
+  vendor?: string;
+  model?: string;
+  year?: number;
+  mcu?: string;
+  board?: string;
+  limit?: number;
+}
+
+// Board Pin Types
+export type PinRole = 'step' | 'dir' | 'enable' | 'endstop' | 'heater' | 'thermistor' | 'fan' | 'other';
+
+export interface BoardPin {
+  section: string;
+  option: string;
+  role: PinRole;
+  pin: string;
+  raw: string;
+  pullup: boolean;
+  invert: boolean;
+  line: number;
+}
+
+export interface BoardPinMap {
+  board: string;
+  name?: string;
+  mcu?: string;
+  filePath: string;
+  pins: BoardPin[];
+}
+
+// Docs Health Types
+export type DocsHealthIssueType =
+  | 'broken-link'
+  | 'broken-anchor'
+  | 'missing-image'
+  | 'missing-h1'
+  | 'duplicate-anchor'
+  | 'unreachable';
+
+export interface DocsHealthIssue {
+  type: DocsHealthIssueType;
+  severity: 'error' | 'warning';
+  file: string;
+  line?: number;
+  target?: string;
+  message: string;
+}
+
+export interface DocsHealthReport {
+  docsPath?: string;
+  entryDocument: string;
+  documents: number;
+  summary: Record<DocsHealthIssueType, number>;
+  issues: DocsHealthIssue[];
+}
+
+// Docs Change Types
+export interface DocSectionDiff {
+  /** Heading path joined with " > " */
+  heading: string;
+  anchor: string;
+  /** Changed lines prefixed with "+ " or "- " */
+  lines: string[];
+}
+
+export interface DocChange {
+  id: string;
+  path: string;
+  status: GitFileChangeStatus;
+  previousPath?: string;
+  addedHeadings: string[];
+  removedHeadings: string[];
+  modifiedHeadings: string[];
+  diff: DocSectionDiff[];
+  /** Changed lines left out of the condensed diff */
+  omittedLines: number;
+}
+
+export interface DocsChangeReport {
+  from: string;
+  to: string;
+  since?: string;
+  documents: DocChange[];
+}
+
+// Taxonomy Types
+export type TaxonomyNodeKind = 'category' | 'subcategory' | 'document';
+
+export interface TaxonomyNode {
+  id: string;
+  kind: TaxonomyNodeKind;
+  title: string;
+  documentId?: string;
+  description?: string;
+  children: TaxonomyNode[];
+}
+
 // Search Types
 export interface SearchResult {
   document: ParsedDocument;
   score: number;
   snippet: string;
   highlights: string[];
+  sections: SearchSectionMatch[];
   metadata: SearchMetadata;
 }
 
+export interface SearchSectionMatch {
+  anchor: string;
+  headingPath: string[];
+  link: string;
+  score: number;
+  snippet: string;
+}
+
 export interface SearchMetadata {
   query: string;
   searchTime: number;
@@ -61,8 +388,11 @@ export interface SearchOptions {
 // Configuration Types
 export interface AppConfig {
   server: ServerConfig;
+  transport: TransportConfig;
   git: GitConfig;
+  source: SourceConfig;
   search: SearchConfig;
+  cache: CacheConfig;
   logging: LoggingConfig;
 }
 
@@ -71,11 +401,43 @@ export interface ServerConfig {
   version: string;
 }
 
+export interface TransportConfig {
+  /** stdio for a single local client, http to serve a shared instance over Streamable HTTP */
+  mode: 'stdio' | 'http';
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients must send; no check when empty */
+  authToken?: string;
+  /** HTTP sessions open at once */
+  maxSessions: number;
+  /** Milliseconds without requests after which an HTTP session is closed */
+  sessionIdleTimeout: number;
+}
+
 export interface GitConfig {
   repository: string;
   branch: string;
   localPath: string;
   syncInterval: number;
+  /** Tags, commits or branches served as separate versions; the first is the default. Empty serves `branch` only */
+  refs: string[];
+  /** Attempts per clone, fetch or checkout before giving up */
+  retries: number;
+  /** Delay before the first retry in milliseconds, doubled on every further attempt */
+  retryDelay: number;
+  /** Check out only docs/ and config/ */
+  sparseCheckout: boolean;
+}
+
+export type DocsSourceMode = 'git' | 'local' | 'snapshot';
+
+export interface SourceConfig {
+  /** Where the docs come from: the managed git clone, a local directory or a snapshot tarball */
+  mode: DocsSourceMode;
+  /** Klipper checkout or docs directory read in local mode */
+  localPath: string;
+  /** Snapshot tarball loaded in snapshot mode */
+  snapshotPath: string;
 }
 
 export interface SearchConfig {
@@ -84,6 +446,11 @@ export interface SearchConfig {
   minScore: number;
 }
 
+export interface CacheConfig {
+  enabled: boolean;
+  path: string;
+}
+
 export interface LoggingConfig {
   level: LogLevel;
   format: 'json' | 'text';
@@ -112,16 +479,142 @@ export interface SearchToolInput {
   query: string;
   limit?: number;
   section?: string;
+  version?: string;
 }
 
 export interface LookupToolInput {
   option: string;
   includeExamples?: boolean;
+  version?: string;
 }
 
 export interface BrowseToolInput {
   section?: string;
+  subsection?: string;
   path?: string;
+  version?: string;
+}
+
+export interface ValidateConfigToolInput {
+  config: string;
+  files?: Record<string, string>;
+  mainFile?: string;
+}
+
+export interface ParseConfigToolInput {
+  config: string;
+  files?: Record<string, string>;
+  mainFile?: string;
+}
+
+export interface GCodeToolInput {
+  command: string;
+  limit?: number;
+}
+
+export interface StatusToolInput {
+  reference: string;
+}
+
+export interface LintMacroToolInput {
+  macro: string;
+  knownCommands?: string[];
+}
+
+export interface DeprecationToolInput {
+  config: string;
+  files?: Record<string, string>;
+  mainFile?: string;
+  installDate?: string;
+  installCommit?: string;
+}
+
+export type ExampleConfigToolInput = ExampleConfigFilter;
+
+export interface BoardPinToolInput {
+  board?: string;
+  pin?: string;
+  role?: PinRole;
+}
+
+export interface RelatedDocsToolInput {
+  document: string;
+  limit?: number;
+}
+
+export interface DocsHealthToolInput {
+  entryDocument?: string;
+}
+
+export interface DocsChangesToolInput {
+  from?: string;
+  to?: string;
+  since?: string;
+  document?: string;
+}
+
+export interface DocHistoryToolInput {
+  document: string;
+  anchor?: string;
+  limit?: number;
+}
+
+// MCP Tool Output Types
+/** A document without its content and parse tree */
+export type DocumentSummary = Omit<ParsedDocument, 'content' | 'nodes' | 'chunks' | 'defaultSection' | 'defaultSubsection'>;
+
+export interface SearchResultOutput extends Omit<SearchResult, 'document' | 'metadata'> {
+  document: DocumentSummary;
+}
+
+export interface SearchToolOutput {
+  query: string;
+  version: string;
+  section?: string;
+  totalResults: number;
+  results: SearchResultOutput[];
+}
+
+export type ConfigLookupMatch = 'section' | 'option' | 'document';
+
+export interface ConfigLookupOutput {
+  option: string;
+  version: string;
+  match: ConfigLookupMatch;
+  /** ID of the document the answer was taken from */
+  source: string;
+  section?: ConfigSectionSchema;
+  options?: Array<ConfigOptionSchema & { section: string }>;
+  content?: string;
+  suggestions: string[];
+}
+
+export type BrowseView = 'overview' | 'category' | 'section' | 'document';
+
+export interface BrowseOutput {
+  version: string;
+  view: BrowseView;
+  section?: string;
+  node?: TaxonomyNode;
+  document?: DocumentSummary;
+  content?: string;
+  documents?: DocumentSummary[];
+  categories?: TaxonomyNode[];
+  /** Sections of documents missing from the table of contents, with their document counts */
+  otherSections?: Array<{ section: string; documents: number }>;
+  stats?: IndexStats;
+}
+
+export interface VersionStats {
+  name: string;
+  ref: string;
+  indexed: boolean;
+  commit?: string;
+  documents?: number;
+}
+
+export interface IndexStatsOutput extends IndexStats {
+  versions: VersionStats[];
 }
 
 // MCP Resource Types
@@ -133,14 +626,82 @@ export interface DocumentResource {
 }
 
 // Git Types
+export interface DocsVersion {
+  /** Name used in tool arguments and klipper://{version}/docs/{id} URIs */
+  name: string;
+  ref: string;
+  /** Checkout root: the main clone or a worktree */
+  path: string;
+}
+
+export type GitFileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface GitFileChange {
+  status: GitFileChangeStatus;
+  path: string;
+  previousPath?: string;
+}
+
 export interface GitSyncResult {
   success: boolean;
-  filesChanged: number;
+  /** Files changed since previousCommit; undefined after a fresh clone or when the diff is unavailable */
+  filesChanged?: GitFileChange[];
+  previousCommit?: string;
   lastCommit: string;
   timestamp: Date;
 }
 
+export interface GitCommitInfo {
+  hash: string;
+  /** Author date */
+  date: Date;
+  author: string;
+  subject: string;
+}
+
+export interface GitBlameRange {
+  startLine: number;
+  endLine: number;
+  lastChanged: GitCommitInfo;
+  /** The commit is the oldest one fetched, so the lines may be older still */
+  historyTruncated: boolean;
+}
+
+export interface DocSectionHistory extends GitBlameRange {
+  anchor: string;
+  heading: string;
+}
+
+export interface DocHistory {
+  document: string;
+  /** Path relative to the repository root */
+  filePath: string;
+  commits: GitCommitInfo[];
+  section?: DocSectionHistory;
+}
+
+export interface SnapshotManifest {
+  commit: string;
+  parserVersion: number;
+  createdAt: string;
+}
+
 // Index Types
+export interface DocumentCorpus {
+  commit: string;
+  docs: Map<string, ParsedDocument>;
+  /** Serialized search index, when the corpus was restored from the on-disk cache */
+  index?: object;
+}
+
+export interface CachedIndex {
+  parserVersion: number;
+  commit: string;
+  createdAt: string;
+  documents: ParsedDocument[];
+  index: object;
+}
+
 export interface IndexStats {
   totalDocuments: number;
   totalWords: number;
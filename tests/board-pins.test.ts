@@ -0,0 +1,111 @@
+/**
+ * MCP Klipper Documentation Server - Board Pin Tests
+ */
+
+import { BoardPinIndex } from '../src/board-pins';
+import { ExampleConfigIndex } from '../src/example-configs';
+
+const SKR_MINI = `# This file contains common pin mappings for the BIGTREETECH SKR mini
+# E3 v2.0. To use this config, the firmware should be compiled for the
+# STM32F103 with a "28KiB bootloader" and USB communication.
+
+[stepper_x]
+step_pin: PB13
+dir_pin: !PB12
+enable_pin: !PB14
+endstop_pin: ^PC0
+
+[stepper_z]
+step_pin: PB0
+dir_pin: PC5
+enable_pin: !PB1
+endstop_pin: probe:z_virtual_endstop
+
+[extruder]
+step_pin: PB3
+heater_pin: PC8
+sensor_pin: PA0
+
+[heater_bed]
+heater_pin: PC9
+sensor_pin: PC3
+
+[heater_fan nozzle_cooling_fan]
+pin: PC7
+
+[fan]
+pin: PC6
+
+[tmc2209 stepper_x]
+uart_pin: PC11
+
+[board_pins]
+aliases:
+    EXP1_1=PB5
+`;
+
+const OTHER_BOARD = `# This file contains common pin mappings for the Example board.
+
+[extruder]
+heater_pin: PC8
+
+[fan]
+pin: PA8
+
+[heater_bed]
+heater_pin: PA8
+`;
+
+describe('BoardPinIndex', () => {
+  let pins: BoardPinIndex;
+
+  beforeEach(() => {
+    const examples = new ExampleConfigIndex();
+    examples.addConfig('generic-bigtreetech-skr-mini-e3-v2.0.cfg', SKR_MINI);
+    examples.addConfig('generic-example-board.cfg', OTHER_BOARD);
+    examples.addConfig('printer-creality-ender3-2018.cfg', '[extruder]\nheater_pin: PD5\n');
+    pins = new BoardPinIndex();
+    pins.load(examples.getAllConfigs());
+  });
+
+  it('should only load generic board configs', () => {
+    expect(pins.getAllBoards().map(board => board.board)).toEqual([
+      'generic-bigtreetech-skr-mini-e3-v2.0',
+      'generic-example-board',
+    ]);
+  });
+
+  it('should classify pin roles and modifiers', () => {
+    const board = pins.getBoard('generic-bigtreetech-skr-mini-e3-v2.0');
+    const byOption = (section: string, option: string) =>
+      board?.pins.find(pin => pin.section === section && pin.option === option);
+
+    expect(board?.mcu).toBe('STM32F103');
+    expect(byOption('stepper_x', 'dir_pin')).toMatchObject({ role: 'dir', pin: 'PB12', invert: true, pullup: false });
+    expect(byOption('stepper_x', 'endstop_pin')).toMatchObject({ role: 'endstop', pin: 'PC0', pullup: true });
+    expect(byOption('extruder', 'sensor_pin')?.role).toBe('thermistor');
+    expect(byOption('heater_bed', 'heater_pin')?.role).toBe('heater');
+    expect(byOption('heater_fan nozzle_cooling_fan', 'pin')?.role).toBe('fan');
+    expect(byOption('tmc2209 stepper_x', 'uart_pin')?.role).toBe('other');
+  });
+
+  it('should skip virtual endstops and pin aliases', () => {
+    const board = pins.getBoard('generic-bigtreetech-skr-mini-e3-v2.0');
+    expect(board?.pins.find(pin => pin.section === 'stepper_z' && pin.option === 'endstop_pin')).toBeUndefined();
+    expect(board?.pins.some(pin => pin.section === 'board_pins')).toBe(false);
+  });
+
+  it('should find boards by partial name', () => {
+    expect(pins.findBoards('skr-mini').map(board => board.board)).toEqual(['generic-bigtreetech-skr-mini-e3-v2.0']);
+    expect(pins.findBoards('example-board.cfg').map(board => board.board)).toEqual(['generic-example-board']);
+  });
+
+  it('should answer reverse pin queries', () => {
+    expect(pins.findPin('pa8').map(board => board.pins.map(pin => pin.role))).toEqual([['fan', 'heater']]);
+    expect(pins.findPin('PC8', 'heater').map(board => board.board)).toEqual([
+      'generic-bigtreetech-skr-mini-e3-v2.0',
+      'generic-example-board',
+    ]);
+    expect(pins.findPin('PA8', 'step')).toEqual([]);
+  });
+});
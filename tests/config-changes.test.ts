@@ -0,0 +1,127 @@
+/**
+ * MCP Klipper Documentation Server - Config Changes Tests
+ */
+
+import { ConfigChangeLog } from '../src/config-changes';
+import { ConfigSchemaParser } from '../src/config-schema';
+import { ConfigFileParser } from '../src/config-file';
+import { createDocument } from './helpers';
+
+const CONFIG_CHANGES = `# Configuration Changes
+
+This document covers recent software changes to the config file that
+are not backwards compatible.
+
+## Changes
+
+20240912: The \`max_accel_to_decel\` parameter in the \`[printer]\`
+config section has been removed. Use \`minimum_cruise_ratio\` instead.
+
+20230619: The \`relative_reference_index\` option has been deprecated
+and superceded by the \`zero_reference_position\` option.
+
+20230304: The \`SET_TMC_CURRENT\` command now properly adjusts the
+current when \`run_current\` is changed.
+
+20220116: The \`SET_DUMB_COMMAND\` command has been removed.
+
+20210503: The \`[gcode_macro]\` \`default_parameter_<name>\` option is
+deprecated.
+`;
+
+const CONFIG_REFERENCE = `# Configuration reference
+
+### [printer]
+
+\`\`\`
+[printer]
+kinematics:
+#max_accel_to_decel:
+\`\`\`
+
+### [bed_mesh]
+
+\`\`\`
+[bed_mesh]
+#relative_reference_index:
+\`\`\`
+`;
+
+const PRINTER_CFG = `[printer]
+kinematics: cartesian
+max_accel_to_decel: 3000
+
+[bed_mesh]
+relative_reference_index: 4
+
+[gcode_macro CLEAN]
+default_parameter_speed: 100
+gcode:
+  SET_DUMB_COMMAND VALUE=1
+  G28
+`;
+
+describe('ConfigChangeLog', () => {
+  let changes: ConfigChangeLog;
+  const fileParser = new ConfigFileParser();
+
+  beforeEach(() => {
+    const schema = new ConfigSchemaParser();
+    schema.parse(createDocument('Config_Reference', CONFIG_REFERENCE));
+    changes = new ConfigChangeLog(schema);
+    changes.parse(createDocument('Config_Changes', CONFIG_CHANGES));
+  });
+
+  describe('parse', () => {
+    it('should extract dated entries in document order', () => {
+      expect(changes.getEntries().map(entry => entry.date)).toEqual([
+        '2024-09-12',
+        '2023-06-19',
+        '2023-03-04',
+        '2022-01-16',
+        '2021-05-03',
+      ]);
+    });
+
+    it('should classify entries and extract identifiers', () => {
+      const [removed, deprecated, changed] = changes.getEntries();
+      expect(removed?.kind).toBe('removed');
+      expect(removed?.sections).toEqual(['printer']);
+      expect(removed?.options).toEqual(['max_accel_to_decel', 'minimum_cruise_ratio']);
+      expect(deprecated?.kind).toBe('deprecated');
+      expect(deprecated?.replacement).toBe('zero_reference_position');
+      expect(changed?.kind).toBe('changed');
+      expect(changed?.commands).toEqual(['SET_TMC_CURRENT']);
+    });
+  });
+
+  describe('checkConfig', () => {
+    it('should report options, sections and commands that are still used', () => {
+      const report = changes.checkConfig(fileParser.parse('printer.cfg', { 'printer.cfg': PRINTER_CFG }));
+      expect(report.findings.map(finding => [finding.line, finding.option, finding.command])).toEqual([
+        [3, 'max_accel_to_decel', undefined],
+        [6, 'relative_reference_index', undefined],
+        [9, 'default_parameter_speed', undefined],
+        [10, 'gcode', 'SET_DUMB_COMMAND'],
+      ]);
+      expect(report.findings[0]?.entry.date).toBe('2024-09-12');
+      expect(report.findings[0]?.inEffect).toBeUndefined();
+    });
+
+    it('should restrict section-scoped entries to that section', () => {
+      const report = changes.checkConfig(fileParser.parse('printer.cfg', {
+        'printer.cfg': '[stepper_x]\nmax_accel_to_decel: 3000\n',
+      }));
+      expect(report.findings).toEqual([]);
+    });
+
+    it('should mark changes after the install date as not yet in effect', () => {
+      const report = changes.checkConfig(
+        fileParser.parse('printer.cfg', { 'printer.cfg': PRINTER_CFG }),
+        new Date('2023-01-01T00:00:00Z')
+      );
+      expect(report.installDate).toBe('2023-01-01');
+      expect(report.findings.map(finding => finding.inEffect)).toEqual([false, false, true, true]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * MCP Klipper Documentation Server - Config File Parser Tests
+ */
+
+import { ConfigFileParser } from '../src/config-file';
+
+describe('ConfigFileParser', () => {
+  let parser: ConfigFileParser;
+
+  beforeEach(() => {
+    parser = new ConfigFileParser();
+  });
+
+  describe('parse', () => {
+    it('should parse sections with ":" and "=" separators', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[printer]
+kinematics: cartesian
+max_velocity = 300
+`,
+      });
+
+      const printer = config.sections[0];
+      expect(printer?.name).toBe('printer');
+      expect(printer?.options.kinematics?.value).toBe('cartesian');
+      expect(printer?.options.max_velocity?.value).toBe('300');
+      expect(printer?.options.max_velocity?.line).toBe(3);
+    });
+
+    it('should join indented multi-line values', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[gcode_macro START_PRINT]
+gcode:
+  G28
+  # home first
+  G1 Z10 F600
+
+[bed_mesh]
+mesh_min: 10, 10
+`,
+      });
+
+      const macro = config.sections.find(section => section.name === 'gcode_macro START_PRINT');
+      expect(macro?.options.gcode?.value).toBe('G28\nG1 Z10 F600');
+      expect(config.sections.length).toBe(2);
+    });
+
+    it('should strip inline comments', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[stepper_x]
+step_pin: PB13  # X step
+dir_pin: !PB12 ; inverted
+`,
+      });
+
+      expect(config.sections[0]?.options.step_pin?.value).toBe('PB13');
+      expect(config.sections[0]?.options.dir_pin?.value).toBe('!PB12');
+    });
+
+    it('should resolve includes and globs relative to the including file', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[include macros/*.cfg]
+[include hardware.cfg]
+
+[printer]
+kinematics: corexy
+`,
+        'macros/b.cfg': `[gcode_macro B]
+gcode: M117 B
+`,
+        'macros/a.cfg': `[gcode_macro A]
+gcode: M117 A
+`,
+        'hardware.cfg': `[stepper_x]
+step_pin: PB13
+`,
+      });
+
+      expect(config.sections.map(section => section.name)).toEqual([
+        'gcode_macro A',
+        'gcode_macro B',
+        'stepper_x',
+        'printer',
+      ]);
+      expect(config.files).toEqual(['printer.cfg', 'macros/a.cfg', 'macros/b.cfg', 'hardware.cfg']);
+      expect(config.sections[2]?.options.step_pin?.file).toBe('hardware.cfg');
+    });
+
+    it('should warn about missing and recursive includes', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[include missing.cfg]
+[include loop.cfg]
+`,
+        'loop.cfg': `[include printer.cfg]
+`,
+      });
+
+      const messages = config.warnings.map(warning => warning.message);
+      expect(messages).toContain('Include file does not exist: missing.cfg');
+      expect(messages).toContain('Recursive include of printer.cfg');
+    });
+
+    it('should let later definitions override earlier ones', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[include base.cfg]
+
+[extruder]
+rotation_distance: 22.6
+`,
+        'base.cfg': `[extruder]
+rotation_distance: 33.5
+nozzle_diameter: 0.4
+`,
+      });
+
+      const extruder = config.sections[0];
+      expect(extruder?.options.rotation_distance?.value).toBe('22.6');
+      expect(extruder?.options.rotation_distance?.file).toBe('printer.cfg');
+      expect(extruder?.options.nozzle_diameter?.file).toBe('base.cfg');
+    });
+
+    it('should parse the SAVE_CONFIG block as overriding values', () => {
+      const config = parser.parse('printer.cfg', {
+        'printer.cfg': `[bltouch]
+z_offset: 2.0
+
+#*# <---------------------- SAVE_CONFIG ---------------------->
+#*# DO NOT EDIT THIS BLOCK OR BELOW. The contents are auto-generated.
+#*#
+#*# [bltouch]
+#*# z_offset = 1.525
+#*#
+#*# [bed_mesh default]
+#*# points =
+#*# \t-0.1, 0.0
+#*# \t0.05, 0.1
+`,
+      });
+
+      const bltouch = config.sections.find(section => section.name === 'bltouch');
+      expect(bltouch?.options.z_offset?.value).toBe('1.525');
+      expect(bltouch?.options.z_offset?.autosave).toBe(true);
+      expect(bltouch?.options.z_offset?.line).toBe(8);
+
+      const mesh = config.sections.find(section => section.name === 'bed_mesh default');
+      expect(mesh?.options.points?.value).toBe('-0.1, 0.0\n0.05, 0.1');
+      expect(config.warnings).toEqual([]);
+    });
+
+    it('should throw when the main file is missing', () => {
+      expect(() => parser.parse('printer.cfg', {})).toThrow('Config file not found');
+    });
+  });
+});
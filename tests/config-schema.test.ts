@@ -0,0 +1,190 @@
+/**
+ * MCP Klipper Documentation Server - Config Schema Tests
+ */
+
+import { ConfigSchemaParser } from '../src/config-schema';
+import { createDocument } from './helpers';
+
+const CONFIG_REFERENCE = `# Configuration reference
+
+## Common kinematic settings
+
+### [printer]
+
+\`\`\`
+[printer]
+kinematics:
+#   The type of printer in use. This parameter must be provided.
+max_velocity:
+#   Maximum velocity (in mm/s) of the toolhead. This parameter must
+#   be specified.
+#square_corner_velocity: 5.0
+#   The maximum velocity (in mm/s) that the toolhead may travel a 90
+#   degree corner at. The default is 5mm/s.
+\`\`\`
+
+### [stepper]
+
+\`\`\`
+[stepper_x]
+step_pin:
+#   Step GPIO pin (triggered high). This parameter must be provided.
+rotation_distance:
+#   Distance (in mm) that the axis travels with one full rotation of
+#   the stepper motor. This parameter must be provided.
+#full_steps_per_rotation: 200
+#   The number of full steps for one rotation of the stepper motor.
+#   The default is 200.
+#position_min: 0
+#   Minimum valid distance (in mm) the user may command the stepper to
+#   move to.  The default is 0mm.
+position_endstop:
+#   Location of the endstop (in mm). This parameter must be provided
+#   for the X, Y, and Z steppers on cartesian style printers.
+\`\`\`
+
+### Cartesian Kinematics
+
+\`\`\`
+[printer]
+kinematics: cartesian
+max_z_velocity:
+#   This sets the maximum velocity (in mm/s) of movement along the z
+#   axis.
+# The stepper_y section is used to describe the Y axis.
+[stepper_y]
+\`\`\`
+
+### [gcode_macro]
+
+\`\`\`
+[gcode_macro my_cmd]
+#gcode:
+#   A list of G-Code commands to execute in place of "my_cmd".
+#variable_<name>:
+#   One may specify any number of options with a "variable_" prefix.
+#rename_existing:
+#   This option will cause the macro to override an existing G-Code
+#   command.
+#probe_points: 10, 10, 20
+#   A list of X, Y coordinates.
+#use_defaults: False
+#   Whether to use the defaults.
+\`\`\`
+`;
+
+describe('ConfigSchemaParser', () => {
+  let parser: ConfigSchemaParser;
+
+  beforeEach(() => {
+    parser = new ConfigSchemaParser();
+    parser.parse(createDocument('Config_Reference', CONFIG_REFERENCE));
+  });
+
+  describe('parse', () => {
+    it('should extract sections from bracketed headings', () => {
+      const names = parser.getAllSections().map(section => section.name);
+      expect(names).toEqual(['printer', 'stepper', 'gcode_macro']);
+    });
+
+    it('should record heading anchors and example headers', () => {
+      const stepper = parser.getSection('stepper');
+      expect(stepper?.anchor).toBe('stepper');
+      expect(stepper?.examples).toContain('stepper_x');
+    });
+
+    it('should collect option descriptions', () => {
+      const option = parser.getSection('stepper')?.options.find(opt => opt.name === 'rotation_distance');
+      expect(option?.description).toEqual([
+        'Distance (in mm) that the axis travels with one full rotation of',
+        'the stepper motor. This parameter must be provided.',
+      ]);
+    });
+
+    it('should mark unconditionally required options', () => {
+      const options = parser.getSection('stepper')?.options || [];
+      expect(options.find(opt => opt.name === 'step_pin')?.required).toBe(true);
+      expect(options.find(opt => opt.name === 'position_endstop')?.required).toBe(false);
+      expect(options.find(opt => opt.name === 'full_steps_per_rotation')?.required).toBe(false);
+    });
+
+    it('should extract defaults from values and descriptions', () => {
+      const printer = parser.getSection('printer');
+      expect(printer?.options.find(opt => opt.name === 'square_corner_velocity')?.default).toBe('5.0');
+      const stepper = parser.getSection('stepper');
+      expect(stepper?.options.find(opt => opt.name === 'position_min')?.default).toBe('0');
+    });
+
+    it('should infer option types', () => {
+      const stepper = parser.getSection('stepper')?.options || [];
+      const macro = parser.getSection('gcode_macro')?.options || [];
+      expect(stepper.find(opt => opt.name === 'step_pin')?.type).toBe('pin');
+      expect(stepper.find(opt => opt.name === 'full_steps_per_rotation')?.type).toBe('int');
+      expect(stepper.find(opt => opt.name === 'position_min')?.type).toBe('float');
+      expect(macro.find(opt => opt.name === 'probe_points')?.type).toBe('list');
+      expect(macro.find(opt => opt.name === 'use_defaults')?.type).toBe('bool');
+      expect(macro.find(opt => opt.name === 'gcode')?.type).toBe('string');
+    });
+
+    it('should keep options with capital letters under lowercase names', () => {
+      const schema = new ConfigSchemaParser();
+      schema.parse(createDocument('Config_Reference', `# Configuration reference
+
+### [extruder]
+
+\`\`\`
+[extruder]
+control:
+#   Control algorithm (either pid or watermark).
+pid_Kp:
+pid_Ki:
+pid_Kd:
+#   The proportional (pid_Kp), integral (pid_Ki), and derivative
+#   (pid_Kd) settings for the PID feedback control system.
+\`\`\`
+
+### [tmc2209]
+
+\`\`\`
+[tmc2209 stepper_x]
+uart_pin:
+#driver_SGTHRS: 0
+#   The StallGuard threshold used for sensorless homing.
+\`\`\`
+`));
+
+      expect(schema.getSection('extruder')?.options.map(opt => opt.name)).toEqual(['control', 'pid_kp', 'pid_ki', 'pid_kd']);
+      expect(schema.getSection('tmc2209')?.options.find(opt => opt.name === 'driver_sgthrs')).toMatchObject({
+        type: 'int',
+        default: '0',
+      });
+      expect(schema.findOption('pid_Kp')[0]?.section.name).toBe('extruder');
+      expect(schema.findOption('DRIVER_SGTHRS')).toHaveLength(1);
+    });
+
+    it('should merge kinematics blocks into existing sections', () => {
+      const printer = parser.getSection('printer');
+      expect(printer?.options.map(opt => opt.name)).toContain('max_z_velocity');
+      expect(parser.getSection('stepper')?.examples).toContain('stepper_y');
+    });
+  });
+
+  describe('findSection', () => {
+    it('should resolve numbered and per-axis variants', () => {
+      expect(parser.findSection('stepper_z1')?.name).toBe('stepper');
+      expect(parser.findSection('[gcode_macro START_PRINT]')?.name).toBe('gcode_macro');
+    });
+
+    it('should return undefined for unknown sections', () => {
+      expect(parser.findSection('not_a_section')).toBeUndefined();
+    });
+  });
+
+  describe('findOption', () => {
+    it('should find options across sections', () => {
+      const matches = parser.findOption('rotation_distance');
+      expect(matches.length).toBe(1);
+      expect(matches[0]?.section.name).toBe('stepper');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * MCP Klipper Documentation Server - Config Validator Tests
+ */
+
+import { ConfigSchemaParser } from '../src/config-schema';
+import { ConfigValidator } from '../src/config-validator';
+import { createDocument } from './helpers';
+
+const CONFIG_REFERENCE = `# Configuration reference
+
+### [stepper]
+
+\`\`\`
+[stepper_x]
+step_pin:
+#   Step GPIO pin (triggered high). This parameter must be provided.
+rotation_distance:
+#   Distance (in mm) that the axis travels with one full rotation.
+#   This parameter must be provided.
+#microsteps: 16
+#   The number of microsteps the stepper motor driver uses.
+\`\`\`
+
+### [gcode_macro]
+
+\`\`\`
+[gcode_macro my_cmd]
+#gcode:
+#   A list of G-Code commands to execute in place of "my_cmd".
+#variable_<name>:
+#   One may specify any number of options with a "variable_" prefix.
+\`\`\`
+
+### [extruder]
+
+\`\`\`
+[extruder]
+step_pin:
+dir_pin:
+enable_pin:
+microsteps:
+rotation_distance:
+#   See the "stepper" section for a description of the above parameters.
+nozzle_diameter:
+#   Diameter of the nozzle orifice (in mm). This parameter must be
+#   provided.
+filament_diameter:
+#   The nominal diameter of the raw filament (in mm) as it enters the
+#   extruder. This parameter must be provided.
+#pressure_advance: 0.0
+#   The amount of raw filament to push into the extruder during
+#   extruder acceleration.
+heater_pin:
+#   PWM output pin controlling the heater. This parameter must be
+#   provided.
+sensor_type:
+sensor_pin:
+#   Type of sensor and the pin connected to it. This parameter must be
+#   provided.
+control:
+#   Control algorithm (either pid or watermark). This parameter must
+#   be provided.
+pid_Kp:
+pid_Ki:
+pid_Kd:
+#   The proportional (pid_Kp), integral (pid_Ki), and derivative
+#   (pid_Kd) settings for the PID feedback control system. Kp, Ki, and
+#   Kd must be provided when the PID control algorithm is used.
+min_temp:
+max_temp:
+#   The maximum range of valid temperatures (in Celsius). This
+#   parameter must be provided.
+\`\`\`
+
+### [tmc2209]
+
+\`\`\`
+[tmc2209 stepper_x]
+uart_pin:
+#   The pin connected to the TMC2209 PDN_UART line. This parameter
+#   must be provided.
+run_current:
+#   The amount of current (in amps RMS) to configure the driver to use
+#   during stepper movement. This parameter must be provided.
+#stealthchop_threshold: 0
+#   The velocity (in mm/s) to set the "stealthChop" threshold to.
+#driver_TBL: 2
+#driver_HSTRT: 5
+#driver_SGTHRS: 0
+#   Set the given register during the configuration of the TMC2209
+#   chip.
+#diag_pin:
+#   The micro-controller pin attached to the DIAG line of the TMC2209
+#   chip.
+\`\`\`
+`;
+
+describe('ConfigValidator', () => {
+  let validator: ConfigValidator;
+
+  beforeEach(() => {
+    const schema = new ConfigSchemaParser();
+    schema.parse(createDocument('Config_Reference', CONFIG_REFERENCE));
+    validator = new ConfigValidator(schema);
+  });
+
+  it('should accept a valid config', () => {
+    const report = validator.validate(`[stepper_x]
+step_pin: PB13
+rotation_distance: 40
+microsteps: 16
+
+[gcode_macro START_PRINT]
+variable_bed_temp: 60
+gcode:
+  G28
+  G1 Z10
+`);
+    expect(report.valid).toBe(true);
+    expect(report.findings).toEqual([]);
+    expect(report.sectionsChecked).toBe(2);
+  });
+
+  it('should accept capitalized options and SAVE_CONFIG values', () => {
+    const report = validator.validate(`[stepper_x]
+step_pin: PB13
+rotation_distance: 40
+microsteps: 16
+
+[tmc2209 stepper_x]
+uart_pin: PC11
+run_current: 0.580
+stealthchop_threshold: 999999
+driver_SGTHRS: 100
+driver_TBL: 1
+diag_pin: ^PC0
+
+[extruder]
+step_pin: PB3
+dir_pin: !PB4
+enable_pin: !PD1
+microsteps: 16
+rotation_distance: 34.406
+nozzle_diameter: 0.400
+filament_diameter: 1.750
+heater_pin: PC8
+sensor_type: EPCOS 100K B57560G104F
+sensor_pin: PA0
+control: pid
+pid_Kp: 21.527
+pid_Ki: 1.063
+pid_Kd: 108.982
+min_temp: 0
+max_temp: 250
+pressure_advance: 0.05
+
+#*# <---------------------- SAVE_CONFIG ---------------------->
+#*# DO NOT EDIT THIS BLOCK OR BELOW. The contents are auto-generated.
+#*#
+#*# [extruder]
+#*# control = pid
+#*# pid_kp = 26.213
+#*# pid_ki = 1.304
+#*# pid_kd = 131.721
+`);
+    expect(report.findings).toEqual([]);
+    expect(report.valid).toBe(true);
+  });
+
+  it('should flag misspelled options with suggestions', () => {
+    const report = validator.validate(`[stepper_x]
+step_pin: PB13
+rotaton_distance: 40
+`);
+    const finding = report.findings.find(f => f.type === 'unknown-option');
+    expect(report.valid).toBe(false);
+    expect(finding?.option).toBe('rotaton_distance');
+    expect(finding?.line).toBe(3);
+    expect(finding?.suggestions).toContain('rotation_distance');
+    expect(finding?.docLink).toBe('klipper://docs/Config_Reference#stepper');
+  });
+
+  it('should flag missing required options', () => {
+    const report = validator.validate(`[stepper_y]
+step_pin: PB10
+`);
+    const missing = report.findings.filter(f => f.type === 'missing-required');
+    expect(missing.map(f => f.option)).toEqual(['rotation_distance']);
+  });
+
+  it('should flag obviously wrong value types', () => {
+    const report = validator.validate(`[stepper_x]
+step_pin: PB13 PB14
+rotation_distance: 40
+microsteps: 16.5
+`);
+    const invalid = report.findings.filter(f => f.type === 'invalid-type');
+    expect(invalid.map(f => f.option)).toEqual(['step_pin', 'microsteps']);
+  });
+
+  it('should warn about unknown sections', () => {
+    const report = validator.validate(`[steper_x]
+step_pin: PB5
+`);
+    const finding = report.findings[0];
+    expect(finding?.type).toBe('unknown-section');
+    expect(finding?.severity).toBe('warning');
+    expect(finding?.suggestions).toContain('stepper_x');
+  });
+});
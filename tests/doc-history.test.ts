@@ -0,0 +1,151 @@
+/**
+ * MCP Klipper Documentation Server - Document History Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { DocHistoryReader } from '../src/doc-history';
+import { DocumentParser } from '../src/parser';
+import { GitSync } from '../src/git-sync';
+import { NotFoundError } from '../src/errors';
+
+const KINEMATICS = `# Kinematics
+
+Intro.
+
+## Acceleration
+
+Use square_corner_velocity.
+
+### Details
+
+Long-standing advice.
+
+## Extruder
+
+Pressure advance.
+`;
+
+describe('DocHistoryReader', () => {
+  let tempDir: string;
+  let origin: SimpleGit;
+  let gitSync: GitSync;
+  let reader: DocHistoryReader;
+
+  const commitDoc = async (content: string, message: string, date: string): Promise<void> => {
+    const docsPath = path.join(tempDir, 'origin', 'docs');
+    fs.mkdirSync(docsPath, { recursive: true });
+    fs.writeFileSync(path.join(docsPath, 'Kinematics.md'), content);
+    await origin.add('.');
+    await origin.env({ ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }).commit(message);
+  };
+
+  const parseKinematics = async (docsPath = gitSync.getDocsPath()) => {
+    const docs = await new DocumentParser().parseDirectory(docsPath);
+    const doc = docs.get('Kinematics');
+    if (!doc) {
+      throw new Error('Kinematics not parsed');
+    }
+    return doc;
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-history-'));
+    fs.mkdirSync(path.join(tempDir, 'origin'));
+    origin = simpleGit(path.join(tempDir, 'origin'));
+    await origin.init(['--initial-branch', 'master']);
+    await origin.addConfig('user.name', 'Test');
+    await origin.addConfig('user.email', 'test@example.com');
+
+    await commitDoc(KINEMATICS, 'docs: Add kinematics', '2020-01-01T12:00:00Z');
+    await commitDoc(KINEMATICS.replace('Pressure advance.', 'Pressure advance tuning.'), 'docs: Extruder tuning', '2023-06-01T12:00:00Z');
+    fs.writeFileSync(path.join(tempDir, 'origin', 'README.md'), 'Unrelated\n');
+    await origin.add('.');
+    await origin.env({ ...process.env, GIT_AUTHOR_DATE: '2024-01-01T12:00:00Z', GIT_COMMITTER_DATE: '2024-01-01T12:00:00Z' }).commit('Update readme');
+
+    gitSync = new GitSync({
+      repository: `file://${path.join(tempDir, 'origin')}`,
+      branch: 'master',
+      localPath: path.join(tempDir, 'data', 'klipper-repo'),
+      syncInterval: 3600000,
+      refs: [],
+      retries: 1,
+      retryDelay: 0,
+      sparseCheckout: false,
+    });
+    await gitSync.initialize();
+    reader = new DocHistoryReader(gitSync);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find section line ranges including subsections', async () => {
+    const doc = await parseKinematics();
+    expect(reader.findSectionLines(doc, '#acceleration')).toEqual({
+      anchor: 'acceleration',
+      heading: 'Acceleration',
+      startLine: 5,
+      endLine: 12,
+    });
+    expect(reader.findSectionLines(doc, 'extruder').endLine).toBeUndefined();
+    expect(() => reader.findSectionLines(doc, 'acceleraton')).toThrow(NotFoundError);
+  });
+
+  it('should list commits touching the document beyond the shallow clone', async () => {
+    const history = await reader.getHistory(await parseKinematics(), { limit: 5 });
+
+    expect(history.filePath).toBe('docs/Kinematics.md');
+    expect(history.commits.map(commit => commit.subject)).toEqual(['docs: Extruder tuning', 'docs: Add kinematics']);
+    expect(history.commits[1]?.date.toISOString()).toBe('2020-01-01T12:00:00.000Z');
+  });
+
+  it('should report when a section last changed', async () => {
+    const doc = await parseKinematics();
+
+    const acceleration = await reader.getHistory(doc, { limit: 1, anchor: 'acceleration' });
+    expect(acceleration.section).toMatchObject({
+      heading: 'Acceleration',
+      startLine: 5,
+      endLine: 12,
+      historyTruncated: false,
+    });
+    expect(acceleration.section?.lastChanged.subject).toBe('docs: Add kinematics');
+
+    const extruder = await reader.getHistory(doc, { limit: 1, anchor: 'extruder' });
+    expect(extruder.section).toMatchObject({ startLine: 13, endLine: 15 });
+    expect(extruder.section?.lastChanged.subject).toBe('docs: Extruder tuning');
+  });
+
+  it('should read history and blame at the served version', async () => {
+    await origin.tag(['v1', 'HEAD~2']);
+    await commitDoc('# Kinematics\n\nIntro.\n\n## Extruder\n\nPressure advance tuning.\n', 'docs: Drop acceleration', '2024-06-01T12:00:00Z');
+    await gitSync.initialize();
+
+    const pinned = new GitSync({
+      repository: `file://${path.join(tempDir, 'origin')}`,
+      branch: 'master',
+      localPath: path.join(tempDir, 'data', 'klipper-repo'),
+      syncInterval: 3600000,
+      refs: ['v1', 'master'],
+      retries: 1,
+      retryDelay: 0,
+      sparseCheckout: false,
+    });
+    const [v1] = pinned.getVersions();
+    if (!v1) {
+      throw new Error('version missing');
+    }
+    const { lastCommit } = await pinned.syncVersion(v1);
+    const doc = await parseKinematics(pinned.getDocsPath(v1));
+
+    // The tracked branch's file is shorter than the served one
+    const history = await new DocHistoryReader(pinned).getHistory(doc, { limit: 5, anchor: 'extruder', commit: lastCommit });
+    expect(history.commits.map(commit => commit.subject)).toEqual(['docs: Add kinematics']);
+    expect(history.section).toMatchObject({ startLine: 13, endLine: 15 });
+    expect(history.section?.lastChanged.subject).toBe('docs: Add kinematics');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * MCP Klipper Documentation Server - Docs Changes Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { DocsChangeTracker } from '../src/docs-changes';
+import { GitSync } from '../src/git-sync';
+import { ValidationError } from '../src/errors';
+
+const BEFORE = `# Bed Mesh
+
+Intro text.
+
+## Basic configuration
+
+The mesh is probed in a grid.
+
+\`\`\`
+[bed_mesh]
+speed: 120
+\`\`\`
+
+## Calibration
+
+Run BED_MESH_CALIBRATE.
+
+## Old section
+
+Gone soon.
+`;
+
+const AFTER = `# Bed Mesh
+
+Intro text.
+
+## Basic configuration
+
+The mesh is probed in a rectangular grid.
+
+\`\`\`
+[bed_mesh]
+speed: 200
+\`\`\`
+
+## Calibration
+
+Run BED_MESH_CALIBRATE.
+
+## Adaptive meshes
+
+Only the printed area is probed.
+`;
+
+describe('DocsChangeTracker', () => {
+  const tracker = new DocsChangeTracker();
+
+  describe('diffDocument', () => {
+    it('should report added, removed and modified headings with a prose diff', () => {
+      const change = tracker.diffDocument({ status: 'modified', path: 'Bed_Mesh.md' }, BEFORE, AFTER);
+
+      expect(change).toMatchObject({
+        id: 'Bed_Mesh',
+        status: 'modified',
+        addedHeadings: ['Bed Mesh > Adaptive meshes'],
+        removedHeadings: ['Bed Mesh > Old section'],
+        modifiedHeadings: ['Bed Mesh > Basic configuration'],
+        omittedLines: 0,
+      });
+      expect(change.diff).toEqual([{
+        heading: 'Bed Mesh > Basic configuration',
+        anchor: 'basic-configuration',
+        lines: ['- The mesh is probed in a grid.', '+ The mesh is probed in a rectangular grid.'],
+      }]);
+    });
+
+    it('should list every heading of added and deleted documents', () => {
+      const added = tracker.diffDocument({ status: 'added', path: 'Bed_Mesh.md' }, undefined, AFTER);
+      expect(added.addedHeadings).toContain('Bed Mesh > Adaptive meshes');
+      expect(added.diff).toEqual([]);
+
+      const deleted = tracker.diffDocument({ status: 'deleted', path: 'Bed_Mesh.md' }, BEFORE);
+      expect(deleted.removedHeadings).toHaveLength(4);
+    });
+
+    it('should keep repeated headings apart and cap the diff', () => {
+      const before = `# Doc\n\n## Example\n\none\n\n## Example\n\n${Array.from({ length: 50 }, (_, i) => `- item ${i}`).join('\n')}\n`;
+      const after = `# Doc\n\n## Example\n\none\n\n## Example\n\n${Array.from({ length: 50 }, (_, i) => `- entry ${i}`).join('\n')}\n`;
+      const change = tracker.diffDocument({ status: 'modified', path: 'Doc.md' }, before, after);
+
+      expect(change.modifiedHeadings).toEqual(['Doc > Example (2)']);
+      expect(change.diff[0]?.lines).toHaveLength(40);
+      expect(change.omittedLines).toBe(60);
+    });
+  });
+
+  describe('compare', () => {
+    let tempDir: string;
+    let origin: SimpleGit;
+    let gitSync: GitSync;
+
+    const commitDocs = async (files: Record<string, string>, message: string, date: string): Promise<void> => {
+      const docsPath = path.join(tempDir, 'origin', 'docs');
+      fs.mkdirSync(docsPath, { recursive: true });
+      Object.entries(files).forEach(([file, content]) => fs.writeFileSync(path.join(docsPath, file), content));
+      await origin.add('.');
+      await origin.env({ ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }).commit(message);
+    };
+
+    beforeEach(async () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-changes-'));
+      fs.mkdirSync(path.join(tempDir, 'origin'));
+      origin = simpleGit(path.join(tempDir, 'origin'));
+      await origin.init(['--initial-branch', 'master']);
+      await origin.addConfig('user.name', 'Test');
+      await origin.addConfig('user.email', 'test@example.com');
+
+      await commitDocs({ 'Bed_Mesh.md': BEFORE, 'FAQ.md': '# FAQ\n' }, 'Add docs', '2024-01-01T12:00:00Z');
+      await origin.addTag('v0.11.0');
+      await commitDocs({ 'Bed_Mesh.md': AFTER }, 'Update bed mesh', '2024-02-01T12:00:00Z');
+      await commitDocs({ 'Probe.md': '# Probe\n\nNew doc.\n' }, 'Add probe', '2024-03-01T12:00:00Z');
+
+      gitSync = new GitSync({
+        repository: `file://${path.join(tempDir, 'origin')}`,
+        branch: 'master',
+        localPath: path.join(tempDir, 'data', 'klipper-repo'),
+        syncInterval: 3600000,
+        refs: [],
+        retries: 1,
+        retryDelay: 0,
+        sparseCheckout: false,
+      });
+      await gitSync.initialize();
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should compare a tag with the checkout', async () => {
+      const report = await new DocsChangeTracker(gitSync).compare({ from: 'v0.11.0' });
+
+      expect(report.documents.map(doc => [doc.id, doc.status])).toEqual([
+        ['Bed_Mesh', 'modified'],
+        ['Probe', 'added'],
+      ]);
+      expect(report.documents[0]?.modifiedHeadings).toEqual(['Bed Mesh > Basic configuration']);
+    });
+
+    it('should fetch the history needed to compare since a date', async () => {
+      const report = await new DocsChangeTracker(gitSync).compare({ since: new Date('2024-02-15T00:00:00Z') });
+
+      expect(report.since).toBe('2024-02-15T00:00:00.000Z');
+      expect(report.documents.map(doc => doc.id)).toEqual(['Probe']);
+    });
+
+    it('should reject refs that git would read as options', async () => {
+      const tracker = new DocsChangeTracker(gitSync);
+      await expect(tracker.compare({ from: '--upload-pack=touch pwned' })).rejects.toThrow(ValidationError);
+      await expect(tracker.compare({ from: 'v0.11.0', to: '-h' })).rejects.toThrow(ValidationError);
+      await expect(tracker.compare({ from: 'HEAD~1..HEAD' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should fetch unknown refs while holding the checkout lock', async () => {
+      const lockPath = path.join(tempDir, 'data', 'klipper-repo.lock');
+      fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, createdAt: new Date().toISOString() }));
+
+      let settled = false;
+      const comparison = new DocsChangeTracker(gitSync).compare({ from: 'v0.11.0' }).finally(() => {
+        settled = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 800));
+      expect(settled).toBe(false);
+
+      fs.rmSync(lockPath);
+      await expect(comparison).resolves.toMatchObject({ documents: expect.any(Array) });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * MCP Klipper Documentation Server - Docs Health Tests
+ */
+
+import { DocsHealthChecker } from '../src/docs-health';
+import { DocumentParser } from '../src/parser';
+import { DocsHealthReport } from '../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DocsHealthChecker', () => {
+  let parser: DocumentParser;
+  let tempDir: string;
+
+  beforeEach(() => {
+    parser = new DocumentParser();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-health-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    parser.clear();
+  });
+
+  const createTempFile = (relativePath: string, content: string): void => {
+    const fullPath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const checkTempDir = async (): Promise<DocsHealthReport> => {
+    const docs = await parser.parseDirectory(tempDir);
+    return new DocsHealthChecker().check(docs, { docsPath: tempDir });
+  };
+
+  it('should report a clean corpus without issues', async () => {
+    createTempFile('Overview.md', '# Overview\n\nSee [Bed Mesh](Bed_Mesh.md#calibration).\n');
+    createTempFile('Bed_Mesh.md', '# Bed Mesh\n\n## Calibration\n\n![mesh](img/mesh.png)\n');
+    createTempFile('img/mesh.png', '');
+
+    const report = await checkTempDir();
+
+    expect(report.documents).toBe(2);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('should report broken links, anchors and missing images with line numbers', async () => {
+    createTempFile(
+      'Overview.md',
+      '# Overview\n\nSee [Bed Mesh](Bed_Mesh.md#missing).\n\nAnd [Probe](Probe.md) and [config](../config/printer.cfg).\n\n![logo](img/logo.svg)\n'
+    );
+    createTempFile('Bed_Mesh.md', '# Bed Mesh\n\nBack to [top](#bed-mesh).\n');
+
+    const report = await checkTempDir();
+
+    expect(report.issues.map(issue => [issue.type, issue.line, issue.target])).toEqual([
+      ['broken-anchor', 3, 'Bed_Mesh.md#missing'],
+      ['broken-link', 5, 'Probe.md'],
+      ['broken-link', 5, '../config/printer.cfg'],
+      ['missing-image', 7, 'img/logo.svg'],
+    ]);
+    expect(report.issues.every(issue => issue.file === 'Overview.md')).toBe(true);
+    expect(report.summary['broken-link']).toBe(2);
+  });
+
+  it('should report missing H1 headings and duplicate anchors', async () => {
+    createTempFile('Overview.md', '# Overview\n\n- [FAQ](FAQ.md)\n- [Usage](FAQ.md#usage-1)\n');
+    createTempFile('FAQ.md', '## Questions\n\n### Usage\n\nText.\n\n### Usage\n\nMore text.\n');
+
+    const report = await checkTempDir();
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'missing-h1', severity: 'error', file: 'FAQ.md', line: 1 }),
+      expect.objectContaining({ type: 'duplicate-anchor', severity: 'warning', file: 'FAQ.md', line: 7, target: 'usage' }),
+    ]);
+  });
+
+  it('should report documents not reachable from the entry document', async () => {
+    createTempFile('Overview.md', '# Overview\n\n[Installation](Installation.md)\n');
+    createTempFile('Installation.md', '# Installation\n\n[Config](Config_Reference.md)\n');
+    createTempFile('Config_Reference.md', '# Configuration reference\n');
+    createTempFile('Orphan.md', '# Orphan\n\n[Overview](Overview.md)\n');
+
+    const report = await checkTempDir();
+
+    expect(report.issues.map(issue => [issue.type, issue.file])).toEqual([['unreachable', 'Orphan.md']]);
+  });
+});
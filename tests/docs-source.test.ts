@@ -0,0 +1,76 @@
+/**
+ * MCP Klipper Documentation Server - Docs Source Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalDocsSource, SnapshotDocsSource, buildSnapshot } from '../src/docs-source';
+import { IndexCache } from '../src/index-cache';
+import { NotFoundError } from '../src/errors';
+
+describe('Docs sources', () => {
+  let tempDir: string;
+  let checkout: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-source-'));
+    checkout = path.join(tempDir, 'klipper');
+    fs.mkdirSync(path.join(checkout, 'docs'), { recursive: true });
+    fs.mkdirSync(path.join(checkout, 'config'));
+    fs.writeFileSync(path.join(checkout, 'docs', 'Overview.md'), '# Overview\n\n## Getting started\n\n- [FAQ](FAQ.md): Questions.\n');
+    fs.writeFileSync(path.join(checkout, 'docs', 'FAQ.md'), '# FAQ\n\nHow do I home?\n');
+    fs.writeFileSync(path.join(checkout, 'config', 'printer-test-2024.cfg'), '[printer]\nkinematics: cartesian\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('LocalDocsSource', () => {
+    it('should read a checkout or a plain docs directory', () => {
+      expect(new LocalDocsSource(checkout).getDocsPath()).toBe(path.join(checkout, 'docs'));
+      expect(new LocalDocsSource(path.join(checkout, 'docs')).getDocsPath()).toBe(path.join(checkout, 'docs'));
+    });
+
+    it('should fingerprint the directory contents', async () => {
+      const source = new LocalDocsSource(checkout);
+      const first = await source.syncVersion();
+      const second = await source.syncVersion();
+      expect(first.lastCommit).toMatch(/^local-[0-9a-f]{12}$/);
+      expect(second).toMatchObject({ previousCommit: first.lastCommit, lastCommit: first.lastCommit, filesChanged: [] });
+
+      fs.writeFileSync(path.join(checkout, 'docs', 'FAQ.md'), '# FAQ\n\nHow do I home the printer?\n');
+      const third = await source.syncVersion();
+      expect(third.lastCommit).not.toBe(first.lastCommit);
+      expect(third.filesChanged).toBeUndefined();
+    });
+
+    it('should fail when the directory is missing', async () => {
+      await expect(new LocalDocsSource(path.join(tempDir, 'missing')).syncVersion()).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should serve a built snapshot with its index', async () => {
+      const snapshotFile = path.join(tempDir, 'out', 'docs.tar.gz');
+      const manifest = await buildSnapshot(new LocalDocsSource(checkout), snapshotFile);
+      expect(fs.existsSync(snapshotFile)).toBe(true);
+
+      const source = new SnapshotDocsSource(snapshotFile, path.join(tempDir, 'snapshot'));
+      const result = await source.syncVersion();
+      expect(result).toMatchObject({ lastCommit: manifest.commit, previousCommit: undefined });
+      expect(fs.readFileSync(path.join(source.getDocsPath(), 'FAQ.md'), 'utf-8')).toContain('How do I home?');
+      expect(fs.existsSync(path.join(source.getConfigPath(), 'printer-test-2024.cfg'))).toBe(true);
+
+      const cached = new IndexCache(source.getCachePath(), true).load();
+      expect(cached?.commit).toBe(manifest.commit);
+      expect(cached?.documents.find(doc => doc.id === 'FAQ')?.section).toBe('getting-started');
+    });
+
+    it('should fail for a missing snapshot', async () => {
+      const source = new SnapshotDocsSource(path.join(tempDir, 'missing.tar.gz'), path.join(tempDir, 'snapshot'));
+      await expect(source.syncVersion()).rejects.toThrow(NotFoundError);
+    });
+  });
+});
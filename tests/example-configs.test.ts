@@ -0,0 +1,105 @@
+/**
+ * MCP Klipper Documentation Server - Example Config Tests
+ */
+
+import { ExampleConfigIndex } from '../src/example-configs';
+
+const ENDER3_V2 = `# This file contains pin mappings for the stock 2020 Creality Ender 3
+# V2. To use this config, during "make menuconfig" select the
+# STM32F103 with a "28KiB bootloader" and serial (on USART1 PA10/PA9)
+# communication.
+
+# See docs/Config_Reference.md for a description of parameters.
+
+[stepper_x]
+step_pin: PC2
+
+[bltouch]
+sensor_pin: ^PB1
+`;
+
+const ENDER5 = `# This file contains common pin mappings for the 2019 Creality
+# Ender 5. The printer uses a Creality v1.1.5 board with an
+# atmega1284p. To use this config, the firmware should be compiled
+# for the AVR atmega1284p.
+
+[stepper_x]
+step_pin: PD7
+`;
+
+const SKR_MINI = `# This file contains common pin mappings for the BIGTREETECH SKR mini
+# E3 v2.0. To use this config, the firmware should be compiled for the
+# STM32F103 with a "28KiB bootloader" and USB communication.
+
+[stepper_x]
+step_pin: PB13
+`;
+
+const SAMPLE_MACROS = `# Example macros for common print start and end sequences.
+
+[gcode_macro START_PRINT]
+gcode:
+  G28
+`;
+
+describe('ExampleConfigIndex', () => {
+  let index: ExampleConfigIndex;
+
+  beforeEach(() => {
+    index = new ExampleConfigIndex();
+    index.addConfig('printer-creality-ender3-v2-2020.cfg', ENDER3_V2);
+    index.addConfig('printer-creality-ender5-2019.cfg', ENDER5);
+    index.addConfig('generic-bigtreetech-skr-mini-e3-v2.0.cfg', SKR_MINI);
+    index.addConfig('sample-macros.cfg', SAMPLE_MACROS);
+    index.addConfig('example-cartesian.cfg', '[printer]\nkinematics: cartesian\n');
+    index.buildIndex();
+  });
+
+  describe('addConfig', () => {
+    it('should parse vendor, model and year from printer file names', () => {
+      const config = index.getConfig('printer-creality-ender3-v2-2020');
+      expect(config?.kind).toBe('printer');
+      expect(config?.vendor).toBe('creality');
+      expect(config?.model).toBe('ender3-v2');
+      expect(config?.year).toBe(2020);
+      expect(config?.filePath).toBe('config/printer-creality-ender3-v2-2020.cfg');
+      expect(config?.sections).toEqual(['stepper_x', 'bltouch']);
+    });
+
+    it('should parse the MCU and board from header comments', () => {
+      expect(index.getConfig('printer-creality-ender3-v2-2020')?.mcu).toBe('STM32F103');
+      expect(index.getConfig('printer-creality-ender5-2019')?.mcu).toBe('atmega1284p');
+      expect(index.getConfig('printer-creality-ender5-2019')?.board).toBe('Creality v1.1.5');
+
+      const generic = index.getConfig('generic-bigtreetech-skr-mini-e3-v2.0.cfg');
+      expect(generic?.vendor).toBe('bigtreetech');
+      expect(generic?.board).toBe('BIGTREETECH SKR mini E3 v2.0');
+      expect(generic?.year).toBeUndefined();
+    });
+
+    it('should skip files outside the example corpus', () => {
+      expect(index.getConfig('example-cartesian')).toBeUndefined();
+      expect(index.getAllConfigs()).toHaveLength(4);
+      expect(index.getConfig('sample-macros')?.vendor).toBeUndefined();
+    });
+  });
+
+  describe('find', () => {
+    it('should filter by metadata', () => {
+      expect(index.find({ vendor: 'Creality' }).map(config => config.id)).toEqual([
+        'printer-creality-ender3-v2-2020',
+        'printer-creality-ender5-2019',
+      ]);
+      expect(index.find({ mcu: 'stm32f103', kind: 'generic' }).map(config => config.id)).toEqual([
+        'generic-bigtreetech-skr-mini-e3-v2.0',
+      ]);
+      expect(index.find({ year: 2019 }).map(config => config.id)).toEqual(['printer-creality-ender5-2019']);
+    });
+
+    it('should rank by free-text query', () => {
+      const results = index.find({ query: 'bltouch' });
+      expect(results[0]?.id).toBe('printer-creality-ender3-v2-2020');
+      expect(index.find({ query: 'creality', year: 2019, limit: 5 })).toHaveLength(1);
+    });
+  });
+});
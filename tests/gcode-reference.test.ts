@@ -0,0 +1,107 @@
+/**
+ * MCP Klipper Documentation Server - G-Code Reference Tests
+ */
+
+import { GCodeReference } from '../src/gcode-reference';
+import { createDocument } from './helpers';
+
+const GCODES = `# G-Codes
+
+## G-Code commands
+
+Klipper supports the following standard G-Code commands:
+- Move (G0 or G1): \`G1 [X<pos>] [Y<pos>] [Z<pos>] [E<pos>] [F<speed>]\`
+- Dwell: \`G4 P<milliseconds>\`
+- Turn off motors: \`M18\` or \`M84\`
+
+## Additional Commands
+
+### [extruder]
+
+The following commands are available if an
+[extruder config section](Config_Reference.md#extruder) is enabled.
+
+#### SET_PRESSURE_ADVANCE
+\`SET_PRESSURE_ADVANCE [EXTRUDER=<config_name>] [ADVANCE=<pressure_advance>]
+[SMOOTH_TIME=<pa_smooth_time>]\`: Set pressure advance parameters of an
+extruder stepper.
+
+\`\`\`
+# NOT_A_COMMAND
+\`\`\`
+
+### [tmcXXXX]
+
+#### DUMP_TMC
+\`DUMP_TMC STEPPER=<name> [REGISTER=<name>]\`: This command will read the
+TMC driver registers.
+
+#### SET_TMC_CURRENT
+\`SET_TMC_CURRENT STEPPER=<name> CURRENT=<amps> HOLDCURRENT=<amps>\`: This
+will adjust the run and hold currents of the TMC driver.
+
+### [bed_mesh]
+
+#### BED_MESH_CALIBRATE
+\`BED_MESH_CALIBRATE [PROFILE=<name>] [METHOD=manual]\`: This command probes
+the bed.
+`;
+
+describe('GCodeReference', () => {
+  let reference: GCodeReference;
+
+  beforeEach(() => {
+    reference = new GCodeReference();
+    reference.parse(createDocument('G-Codes', GCODES));
+  });
+
+  describe('parse', () => {
+    it('should extract commands from headings', () => {
+      const command = reference.getCommand('SET_PRESSURE_ADVANCE');
+      expect(command?.configSection).toBe('extruder');
+      expect(command?.anchor).toBe('set_pressure_advance');
+      expect(command?.description).toBe('Set pressure advance parameters of an extruder stepper.');
+    });
+
+    it('should parse parameters with optionality', () => {
+      const command = reference.getCommand('SET_TMC_CURRENT');
+      expect(command?.parameters).toEqual([
+        { name: 'STEPPER', value: '<name>', optional: false },
+        { name: 'CURRENT', value: '<amps>', optional: false },
+        { name: 'HOLDCURRENT', value: '<amps>', optional: false },
+      ]);
+
+      const advance = reference.getCommand('SET_PRESSURE_ADVANCE');
+      expect(advance?.parameters.map(p => p.name)).toEqual(['EXTRUDER', 'ADVANCE', 'SMOOTH_TIME']);
+      expect(advance?.parameters.every(p => p.optional)).toBe(true);
+    });
+
+    it('should extract standard commands from list items', () => {
+      expect(reference.getCommand('G1')?.parameters.map(p => p.name)).toEqual(['X', 'Y', 'Z', 'E', 'F']);
+      expect(reference.getCommand('G0')?.usage[0]).toContain('G1');
+      expect(reference.getCommand('g4')?.parameters[0]?.optional).toBe(false);
+      expect(reference.getCommand('M84')).toBeDefined();
+    });
+
+    it('should ignore headings inside code fences', () => {
+      expect(reference.getCommand('NOT_A_COMMAND')).toBeUndefined();
+    });
+  });
+
+  describe('findCommands', () => {
+    it('should list commands by name component and config section', () => {
+      const names = reference.findCommands('TMC').map(command => command.name);
+      expect(names).toEqual(['DUMP_TMC', 'SET_TMC_CURRENT']);
+    });
+
+    it('should list commands by prefix', () => {
+      expect(reference.findCommands('BED_MESH*').map(command => command.name)).toEqual(['BED_MESH_CALIBRATE']);
+    });
+  });
+
+  describe('suggestCommands', () => {
+    it('should suggest close command names', () => {
+      expect(reference.suggestCommands('SET_PRESURE_ADVANCE')[0]).toBe('SET_PRESSURE_ADVANCE');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * MCP Klipper Documentation Server - Git Sync Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { GitSync, scopeChanges } from '../src/git-sync';
+import { GitError } from '../src/errors';
+import { logger } from '../src/logger';
+import { GitConfig } from '../src/types';
+
+describe('scopeChanges', () => {
+  it('should keep changes inside the directory with relative paths', () => {
+    expect(scopeChanges([
+      { status: 'modified', path: 'docs/Bed_Mesh.md' },
+      { status: 'added', path: 'docs/img/mesh.png' },
+      { status: 'modified', path: 'klippy/extras/bed_mesh.py' },
+      { status: 'deleted', path: 'docs-old/Notes.md' },
+    ], 'docs')).toEqual([
+      { status: 'modified', path: 'Bed_Mesh.md' },
+      { status: 'added', path: 'img/mesh.png' },
+    ]);
+  });
+
+  it('should split renames across the directory boundary', () => {
+    expect(scopeChanges([
+      { status: 'renamed', path: 'docs/New.md', previousPath: 'docs/Old.md' },
+      { status: 'renamed', path: 'docs/Moved_In.md', previousPath: 'scripts/Notes.md' },
+      { status: 'renamed', path: 'scripts/Moved_Out.md', previousPath: 'docs/Moved_Out.md' },
+    ], 'docs/')).toEqual([
+      { status: 'renamed', path: 'New.md', previousPath: 'Old.md' },
+      { status: 'added', path: 'Moved_In.md' },
+      { status: 'deleted', path: 'Moved_Out.md' },
+    ]);
+  });
+});
+
+describe('GitSync versions', () => {
+  let tempDir: string;
+  let origin: SimpleGit;
+  let gitSync: GitSync;
+
+  const commitDoc = async (file: string, content: string, message: string): Promise<void> => {
+    fs.mkdirSync(path.join(tempDir, 'origin', 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'origin', 'docs', file), content);
+    await origin.add('.');
+    await origin.commit(message);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-git-'));
+    fs.mkdirSync(path.join(tempDir, 'origin'));
+    origin = simpleGit(path.join(tempDir, 'origin'));
+    await origin.init(['--initial-branch', 'master']);
+    await origin.addConfig('user.name', 'Test');
+    await origin.addConfig('user.email', 'test@example.com');
+
+    await commitDoc('Bed_Mesh.md', '# Bed Mesh\n\nOld text.\n', 'Add bed mesh');
+    await origin.addTag('v0.11.0');
+    await commitDoc('Bed_Mesh.md', '# Bed Mesh\n\nNew text.\n', 'Update bed mesh');
+
+    gitSync = new GitSync({
+      repository: `file://${path.join(tempDir, 'origin')}`,
+      branch: 'master',
+      localPath: path.join(tempDir, 'data', 'klipper-repo'),
+      syncInterval: 3600000,
+      refs: ['master', 'v0.11.0', 'feature/x'],
+      retries: 1,
+      retryDelay: 0,
+      sparseCheckout: false,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should serve the branch from the clone and other refs from worktrees', () => {
+    expect(gitSync.getVersions()).toEqual([
+      { name: 'master', ref: 'master', path: path.join(tempDir, 'data', 'klipper-repo') },
+      { name: 'v0.11.0', ref: 'v0.11.0', path: path.join(tempDir, 'data', 'klipper-versions', 'v0.11.0') },
+      { name: 'feature-x', ref: 'feature/x', path: path.join(tempDir, 'data', 'klipper-versions', 'feature-x') },
+    ]);
+    expect(gitSync.getDefaultVersion().name).toBe('master');
+  });
+
+  it('should check out each ref side by side', async () => {
+    const [master, pinned] = gitSync.getVersions();
+    if (!master || !pinned) {
+      throw new Error('versions missing');
+    }
+
+    await gitSync.syncVersion(master);
+    const result = await gitSync.syncVersion(pinned);
+
+    expect(result.previousCommit).toBeUndefined();
+    expect(fs.readFileSync(path.join(gitSync.getDocsPath(pinned), 'Bed_Mesh.md'), 'utf-8')).toContain('Old text.');
+    expect(fs.readFileSync(path.join(gitSync.getDocsPath(), 'Bed_Mesh.md'), 'utf-8')).toContain('New text.');
+
+    const again = await gitSync.syncVersion(pinned);
+    expect(again).toMatchObject({ previousCommit: result.lastCommit, lastCommit: result.lastCommit, filesChanged: [] });
+  });
+});
+
+describe('GitSync robustness', () => {
+  let tempDir: string;
+  let originPath: string;
+  let localPath: string;
+
+  const createGitSync = (overrides: Partial<GitConfig> = {}) => new GitSync({
+    repository: `file://${originPath}`,
+    branch: 'master',
+    localPath,
+    syncInterval: 3600000,
+    refs: [],
+    retries: 1,
+    retryDelay: 0,
+    sparseCheckout: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-git-'));
+    originPath = path.join(tempDir, 'origin');
+    localPath = path.join(tempDir, 'data', 'klipper-repo');
+
+    ['docs', 'config', 'klippy'].forEach(directory => fs.mkdirSync(path.join(originPath, directory), { recursive: true }));
+    fs.writeFileSync(path.join(originPath, 'docs', 'FAQ.md'), '# FAQ\n');
+    fs.writeFileSync(path.join(originPath, 'config', 'printer-test-2024.cfg'), '[printer]\n');
+    fs.writeFileSync(path.join(originPath, 'klippy', 'klippy.py'), 'print()\n');
+
+    const origin = simpleGit(originPath);
+    await origin.init(['--initial-branch', 'master']);
+    await origin.addConfig('user.name', 'Test');
+    await origin.addConfig('user.email', 'test@example.com');
+    await origin.add('.');
+    await origin.commit('Initial commit');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should clone again when the checkout is corrupted', async () => {
+    await createGitSync().initialize();
+    // Lose every object, as a failing disk might
+    const objects = path.join(localPath, '.git', 'objects');
+    fs.readdirSync(objects).filter(entry => entry !== 'info').forEach(entry => {
+      fs.rmSync(path.join(objects, entry), { recursive: true, force: true });
+    });
+
+    const result = await createGitSync().initialize();
+    expect(result.success).toBe(true);
+    expect(fs.existsSync(path.join(localPath, 'docs', 'FAQ.md'))).toBe(true);
+    expect(fs.existsSync(`${localPath}.lock`)).toBe(false);
+  });
+
+  it('should leave directories that are not usable checkouts alone', async () => {
+    fs.mkdirSync(localPath, { recursive: true });
+    fs.writeFileSync(path.join(localPath, 'notes.txt'), 'keep me\n');
+    await expect(createGitSync().initialize()).rejects.toThrow(GitError);
+    expect(fs.readFileSync(path.join(localPath, 'notes.txt'), 'utf-8')).toBe('keep me\n');
+
+    // git cannot read it, like a checkout refused for dubious ownership
+    fs.mkdirSync(path.join(localPath, '.git'));
+    await expect(createGitSync().initialize()).rejects.toThrow(/Cannot read the checkout/);
+    expect(fs.existsSync(path.join(localPath, 'notes.txt'))).toBe(true);
+    expect(fs.existsSync(`${localPath}.lock`)).toBe(false);
+  });
+
+  it('should clone into an empty directory', async () => {
+    fs.mkdirSync(localPath, { recursive: true });
+    await expect(createGitSync().initialize()).resolves.toMatchObject({ success: true });
+    expect(fs.existsSync(path.join(localPath, 'docs', 'FAQ.md'))).toBe(true);
+  });
+
+  it('should serialize syncs on the same checkout', async () => {
+    const results = await Promise.all([createGitSync().initialize(), createGitSync().initialize()]);
+
+    expect(results[0].lastCommit).toBe(results[1].lastCommit);
+    expect(results.filter(result => result.previousCommit === results[0].lastCommit)).toHaveLength(1);
+  });
+
+  it('should take over locks left by processes that are gone', async () => {
+    fs.mkdirSync(path.dirname(localPath), { recursive: true });
+    const child = spawnSync(process.execPath, ['-e', '']);
+    fs.writeFileSync(`${localPath}.lock`, JSON.stringify({ pid: child.pid, createdAt: new Date().toISOString() }));
+
+    await expect(createGitSync().initialize()).resolves.toMatchObject({ success: true });
+  });
+
+  it('should retry failed clones and then give up', async () => {
+    const warn = jest.spyOn(logger, 'warn');
+    const gitSync = createGitSync({ repository: `file://${path.join(tempDir, 'missing')}`, retries: 3, retryDelay: 1 });
+
+    await expect(gitSync.initialize()).rejects.toThrow(GitError);
+    expect(warn.mock.calls.filter(([message]) => message.startsWith('Git clone failed'))).toHaveLength(2);
+    expect(fs.readdirSync(path.dirname(localPath))).toEqual([]);
+    warn.mockRestore();
+  });
+
+  it('should check out only docs and config when sparse', async () => {
+    await createGitSync({ sparseCheckout: true }).initialize();
+    expect(fs.existsSync(path.join(localPath, 'docs', 'FAQ.md'))).toBe(true);
+    expect(fs.existsSync(path.join(localPath, 'config', 'printer-test-2024.cfg'))).toBe(true);
+    expect(fs.existsSync(path.join(localPath, 'klippy'))).toBe(false);
+
+    // Turning it off restores the full checkout on the next sync
+    await createGitSync().initialize();
+    expect(fs.existsSync(path.join(localPath, 'klippy', 'klippy.py'))).toBe(true);
+  });
+});
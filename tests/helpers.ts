@@ -0,0 +1,40 @@
+/**
+ * MCP Klipper Documentation Server - Test Helpers
+ */
+
+import { DocumentParser } from '../src/parser';
+import { ParsedDocument } from '../src/types';
+
+const parser = new DocumentParser();
+
+export interface DocumentFixtureOptions {
+  section?: string;
+  tags?: string[];
+}
+
+/**
+ * A document as the parser would index it, with its markdown parse tree but
+ * without computed metadata. The title is the ID with spaces.
+ */
+export const createDocument = (
+  id: string,
+  content = `# ${id}\n`,
+  { section = 'general', tags = [] }: DocumentFixtureOptions = {}
+): ParsedDocument => ({
+  id,
+  title: id.replace(/_/g, ' '),
+  content,
+  section,
+  defaultSection: section,
+  filePath: `${id}.md`,
+  lastModified: new Date('2024-05-01T12:00:00Z'),
+  metadata: {
+    wordCount: 0,
+    readingTime: 0,
+    difficulty: 'intermediate',
+    tags,
+    relatedDocuments: [],
+    headings: [],
+  },
+  nodes: parser.parseMarkdown(content),
+});
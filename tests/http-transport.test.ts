@@ -0,0 +1,179 @@
+/**
+ * MCP Klipper Documentation Server - HTTP Transport Tests
+ */
+
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer, HttpTransportOptions } from '../src/http-transport';
+
+const createServer = () => {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: [{ name: 'ping', inputSchema: { type: 'object' as const, properties: {} } }],
+  }));
+  return server;
+};
+
+describe('HttpTransportServer', () => {
+  let ready: boolean;
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+
+  const connect = async (token?: string) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+    });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  const start = async (options: Partial<HttpTransportOptions> = {}) => {
+    httpServer = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret',
+      createServer,
+      isReady: () => ready,
+      ...options,
+    });
+    const address: AddressInfo = await httpServer.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  };
+
+  const waitFor = async (condition: () => boolean, timeout = 5000) => {
+    const deadline = Date.now() + timeout;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  };
+
+  beforeEach(async () => {
+    ready = false;
+    await start();
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  it('should report index readiness on /health', async () => {
+    const indexing = await fetch(`${baseUrl}/health`);
+    expect(indexing.status).toBe(503);
+    expect(await indexing.json()).toMatchObject({ status: 'indexing', ready: false });
+
+    ready = true;
+    const healthy = await fetch(`${baseUrl}/health`);
+    expect(healthy.status).toBe(200);
+    expect(await healthy.json()).toEqual({ status: 'ready', ready: true, sessions: 0 });
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: '{}',
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+
+    await expect(connect()).rejects.toThrow();
+  });
+
+  it('should serve each client in its own session', async () => {
+    const first = await connect('secret');
+    const second = await connect('secret');
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(httpServer.getSessionCount()).toBe(2);
+    expect((await first.client.listTools()).tools.map(tool => tool.name)).toEqual(['ping']);
+
+    await first.transport.terminateSession();
+    expect(httpServer.getSessionCount()).toBe(1);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should reject unknown sessions and requests before initialize', async () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: 'Bearer secret',
+    };
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    const unknown = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...headers, 'mcp-session-id': 'nope' }, body });
+    expect(unknown.status).toBe(404);
+
+    const uninitialized = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body });
+    expect(uninitialized.status).toBe(400);
+  });
+
+  it('should refuse sessions beyond the limit until one closes', async () => {
+    await httpServer.close();
+    await start({ maxSessions: 1 });
+
+    const first = await connect('secret');
+    await expect(connect('secret')).rejects.toThrow();
+
+    const refused = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer secret',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+      }),
+    });
+    expect(refused.status).toBe(503);
+    expect(httpServer.getSessionCount()).toBe(1);
+
+    await first.transport.terminateSession();
+    await first.client.close();
+    const second = await connect('secret');
+    expect((await second.client.listTools()).tools).toHaveLength(1);
+    await second.client.close();
+  });
+
+  it('should close sessions left idle for longer than the timeout', async () => {
+    await httpServer.close();
+    await start({ sessionIdleTimeout: 200 });
+
+    const active = await connect('secret');
+    // Closing the client drops its event stream without ending the session
+    const abandoned = await connect('secret');
+    await abandoned.client.close();
+    expect(httpServer.getSessionCount()).toBe(2);
+
+    await waitFor(() => httpServer.getSessionCount() < 2);
+    expect(httpServer.getSessionCount()).toBe(1);
+    // The event stream of the connected client keeps its session open
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(httpServer.getSessionCount()).toBe(1);
+    expect((await active.client.listTools()).tools).toHaveLength(1);
+
+    const stale = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer secret',
+        'mcp-session-id': abandoned.transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(stale.status).toBe(404);
+
+    await active.client.close();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * MCP Klipper Documentation Server - Index Cache Tests
+ */
+
+import { IndexCache } from '../src/index-cache';
+import { PARSER_VERSION } from '../src/parser';
+import { ParsedDocument } from '../src/types';
+import { createDocument } from './helpers';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('IndexCache', () => {
+  let tempDir: string;
+  let docs: Map<string, ParsedDocument>;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-cache-'));
+    docs = new Map([['Overview', createDocument('Overview')], ['FAQ', createDocument('FAQ')]]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip documents and the serialized index', () => {
+    const cache = new IndexCache(path.join(tempDir, 'cache'));
+    cache.save('abc123', docs, { version: 'test' });
+
+    const cached = cache.load();
+    expect(cached).toMatchObject({ commit: 'abc123', parserVersion: PARSER_VERSION, index: { version: 'test' } });
+    expect(cached?.documents.map(doc => doc.id)).toEqual(['Overview', 'FAQ']);
+    expect(cached?.documents[0]?.lastModified).toEqual(new Date('2024-05-01T12:00:00Z'));
+    expect(fs.readdirSync(path.join(tempDir, 'cache'))).toEqual(['index.json']);
+  });
+
+  it('should ignore caches from another parser version', () => {
+    const cache = new IndexCache(tempDir);
+    cache.save('abc123', docs, {});
+
+    const file = path.join(tempDir, 'index.json');
+    const stale = JSON.parse(fs.readFileSync(file, 'utf-8')) as { parserVersion: number };
+    fs.writeFileSync(file, JSON.stringify({ ...stale, parserVersion: PARSER_VERSION - 1 }));
+
+    expect(cache.load()).toBeUndefined();
+  });
+
+  it('should ignore unreadable caches', () => {
+    fs.writeFileSync(path.join(tempDir, 'index.json'), '{"truncated":');
+    expect(new IndexCache(tempDir).load()).toBeUndefined();
+  });
+
+  it('should neither read nor write when disabled', () => {
+    const cache = new IndexCache(tempDir, false);
+    cache.save('abc123', docs, {});
+
+    expect(fs.existsSync(path.join(tempDir, 'index.json'))).toBe(false);
+    expect(cache.load()).toBeUndefined();
+  });
+});
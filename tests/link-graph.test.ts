@@ -0,0 +1,66 @@
+/**
+ * MCP Klipper Documentation Server - Link Graph Tests
+ */
+
+import { LinkGraph, resolveDocumentLink } from '../src/link-graph';
+import { ParsedDocument } from '../src/types';
+import { createDocument } from './helpers';
+
+describe('resolveDocumentLink', () => {
+  it('should resolve relative document links with anchors', () => {
+    expect(resolveDocumentLink('Bed_Mesh', 'Probe_Calibrate.md')).toEqual({ target: 'Probe_Calibrate', anchor: undefined });
+    expect(resolveDocumentLink('Bed_Mesh', 'Config_Reference.md#bed_mesh')).toEqual({
+      target: 'Config_Reference',
+      anchor: 'bed_mesh',
+    });
+    expect(resolveDocumentLink('guides/Intro', '../Overview.md')).toEqual({ target: 'Overview', anchor: undefined });
+    expect(resolveDocumentLink('Bed_Mesh', '#calibration')).toEqual({ target: 'Bed_Mesh', anchor: 'calibration' });
+  });
+
+  it('should ignore external links', () => {
+    expect(resolveDocumentLink('Bed_Mesh', 'https://www.klipper3d.org/')).toBeUndefined();
+    expect(resolveDocumentLink('Bed_Mesh', 'mailto:someone@example.com')).toBeUndefined();
+  });
+});
+
+describe('LinkGraph', () => {
+  let graph: LinkGraph;
+  let docs: Map<string, ParsedDocument>;
+
+  beforeEach(() => {
+    docs = new Map([
+      ['Bed_Mesh', createDocument(
+        'Bed_Mesh',
+        '# Bed Mesh\n\nCalibrate the [probe](Probe_Calibrate.md) first. See [bed_mesh](Config_Reference.md#bed_mesh).\n\n![mesh](img/mesh.png)',
+        { tags: ['bed', 'probe'] }
+      )],
+      ['Probe_Calibrate', createDocument('Probe_Calibrate', '# Probe calibration\n\nBack to [Bed Mesh](Bed_Mesh.md).', { tags: ['probe'] })],
+      ['Config_Reference', createDocument('Config_Reference', '# Configuration reference\n\n- [Overview](Overview.md)', { tags: ['configuration'] })],
+      ['Overview', createDocument('Overview', '# Overview\n\nSee the [website](https://www.klipper3d.org/).', { tags: ['bed'] })],
+      ['FAQ', createDocument('FAQ', '# FAQ\n\nNothing here.', { tags: ['installation'] })],
+    ]);
+    graph = new LinkGraph();
+    graph.build(docs);
+  });
+
+  it('should record outgoing links and backlinks', () => {
+    expect(graph.getOutgoing('Bed_Mesh').map(edge => [edge.target, edge.anchor])).toEqual([
+      ['Probe_Calibrate', undefined],
+      ['Config_Reference', 'bed_mesh'],
+    ]);
+    expect(graph.getBacklinks('Bed_Mesh').map(edge => edge.source)).toEqual(['Probe_Calibrate']);
+    expect(graph.getBacklinks('Overview').map(edge => edge.source)).toEqual(['Config_Reference']);
+  });
+
+  it('should rank related documents by links, backlinks and shared tags', () => {
+    const related = graph.getRelated('Bed_Mesh');
+    expect(related.map(entry => entry.id)).toEqual(['Probe_Calibrate', 'Config_Reference', 'Overview']);
+    expect(related[0]).toMatchObject({ linksTo: true, linkedFrom: true, sharedTags: ['probe'] });
+    expect(related[2]).toMatchObject({ linksTo: false, linkedFrom: false, sharedTags: ['bed'] });
+  });
+
+  it('should fill relatedDocuments on every document', () => {
+    expect(docs.get('Probe_Calibrate')?.metadata.relatedDocuments).toEqual(['Bed_Mesh']);
+    expect(docs.get('FAQ')?.metadata.relatedDocuments).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * MCP Klipper Documentation Server - Macro Linter Tests
+ */
+
+import { MacroLinter } from '../src/macro-lint';
+import { StatusReference } from '../src/status-reference';
+import { GCodeReference } from '../src/gcode-reference';
+import { createDocument } from './helpers';
+
+const STATUS_REFERENCE = `# Status reference
+
+## gcode_macro
+
+The following information is available in
+[gcode_macro some_name](Config_Reference.md#gcode_macro) objects:
+- \`<variable>\`: The current value of a gcode_macro variable.
+
+## heater
+
+The following information is available for heater objects such as
+[heater_bed](Config_Reference.md#heater_bed):
+- \`temperature\`: The last reported temperature.
+- \`target\`: The current target temperature.
+
+## toolhead
+
+The following information is available in the \`toolhead\` object:
+- \`position\`: The last commanded position of the toolhead.
+- \`homed_axes\`: The current cartesian "homed" state.
+`;
+
+const GCODES = `# G-Codes
+
+## G-Code commands
+
+- Move (G0 or G1): \`G1 [X<pos>] [Y<pos>] [Z<pos>] [E<pos>] [F<speed>]\`
+- Move to origin: \`G28 [X] [Y] [Z]\`
+- Set bed temperature and wait: \`M190 S<temperature>\`
+- Display Message: \`M117 <message>\`
+
+## Additional Commands
+
+### [gcode_macro]
+
+#### SET_GCODE_VARIABLE
+\`SET_GCODE_VARIABLE MACRO=<macro_name> VARIABLE=<name> VALUE=<value>\`:
+This command allows one to change the value of a gcode_macro variable.
+`;
+
+describe('MacroLinter', () => {
+  let linter: MacroLinter;
+
+  beforeEach(() => {
+    const status = new StatusReference();
+    status.parse(createDocument('Status_Reference', STATUS_REFERENCE));
+    const gcodes = new GCodeReference();
+    gcodes.parse(createDocument('G-Codes', GCODES));
+    linter = new MacroLinter(status, gcodes);
+  });
+
+  it('should accept a clean macro', () => {
+    const reports = linter.lint(`[gcode_macro START_PRINT]
+gcode:
+  {% set bed = params.BED|default(60)|float %}
+  {% if 'xyz' not in printer.toolhead.homed_axes %}
+    G28
+  {% endif %}
+  M190 S{bed}
+  G1 Z{printer.toolhead.position.z + 5}
+`);
+    expect(reports.length).toBe(1);
+    expect(reports[0]?.macro).toBe('gcode_macro START_PRINT');
+    expect(reports[0]?.findings).toEqual([]);
+  });
+
+  it('should flag undocumented status objects and attributes', () => {
+    const reports = linter.lint(`[gcode_macro CHECK]
+gcode:
+  M117 {printer.tooolhead.position}
+  M117 {printer["heater_bed"].power}
+  M117 {printer["heater_bed"].target}
+`);
+    const findings = reports[0]?.findings || [];
+    expect(findings.map(f => f.type)).toEqual(['unknown-status-object', 'unknown-status-attribute']);
+    expect(findings[0]?.line).toBe(3);
+    expect(findings[0]?.suggestions).toContain('toolhead');
+    expect(findings[1]?.line).toBe(4);
+  });
+
+  it('should flag unknown G-Code commands outside Jinja statements', () => {
+    const reports = linter.lint(`[gcode_macro PARK]
+gcode:
+  {% if printer.toolhead.homed_axes %}
+  G28
+  {% endif %}
+  G28X
+  SET_GCODE_VARIABL MACRO=PARK VARIABLE=x VALUE=1
+`);
+    const findings = reports[0]?.findings || [];
+    expect(findings.map(f => f.reference)).toEqual(['G28X', 'SET_GCODE_VARIABL']);
+    expect(findings[1]?.suggestions).toContain('SET_GCODE_VARIABLE');
+  });
+
+  it('should accept calls to macros defined in the same text or passed as known', () => {
+    const reports = linter.lint(`[gcode_macro A]
+gcode:
+  B
+  CLEAN_NOZZLE
+
+[gcode_macro B]
+gcode:
+  G28
+`, ['clean_nozzle']);
+    expect(reports.flatMap(report => report.findings)).toEqual([]);
+  });
+
+  it('should flag params without defaults', () => {
+    const reports = linter.lint(`[gcode_macro HEAT]
+gcode:
+  M190 S{params.TEMP|float}
+  {% if params.WAIT is defined %}
+    M190 S{params['WAIT']}
+  {% endif %}
+`);
+    const findings = reports[0]?.findings || [];
+    expect(findings.map(f => f.reference)).toEqual(['params.TEMP']);
+    expect(findings[0]?.type).toBe('param-without-default');
+  });
+
+  it('should throw when no gcode_macro section is present', () => {
+    expect(() => linter.lint('[printer]\nkinematics: none\n')).toThrow('No [gcode_macro ...] section found');
+  });
+});
@@ -97,6 +97,90 @@ describe('DocumentParser', () => {
       expect(doc?.metadata.headings.length).toBe(4);
     });
 
+    it('should split documents into heading-level chunks', async () => {
+      const content = `# Main Title
+
+Intro text.
+
+## Section One
+
+\`\`\`
+# not a heading
+\`\`\`
+
+### Subsection
+
+Nested text.
+
+## Section Two`;
+
+      createTempFile('test.md', content);
+
+      const docs = await parser.parseDirectory(tempDir);
+      const chunks = docs.get('test')?.chunks || [];
+      expect(chunks.map(chunk => chunk.anchor)).toEqual(['main-title', 'section-one', 'subsection', 'section-two']);
+      expect(chunks[0]?.content).toBe('Intro text.');
+      expect(chunks[1]?.content).toContain('# not a heading');
+      expect(chunks[2]?.headingPath).toEqual(['Main Title', 'Section One', 'Subsection']);
+      expect(chunks[3]?.headingPath).toEqual(['Main Title', 'Section Two']);
+    });
+
+    it('should ignore comment lines inside code fences', async () => {
+      const content = `\`\`\`
+# This file contains pin mappings
+[stepper_x]
+\`\`\`
+
+# Real Title
+
+## Section`;
+
+      createTempFile('test.md', content);
+
+      const docs = await parser.parseDirectory(tempDir);
+      const doc = docs.get('test');
+      expect(doc?.title).toBe('Real Title');
+      expect(doc?.metadata.headings.map(heading => heading.text)).toEqual(['Real Title', 'Section']);
+    });
+
+    it('should build a token tree with code, tables, lists and links', async () => {
+      const content = `# Probes
+
+See the [config reference](Config_Reference.md#bltouch) for \`[bltouch]\`.
+
+\`\`\`ini
+[bltouch]
+sensor_pin: ^PB1
+\`\`\`
+
+| Probe | Type |
+|-------|------|
+| BLTouch | servo |
+
+- First step
+  - Nested [link](Probe_Calibrate.md)
+- Second step`;
+
+      createTempFile('test.md', content);
+
+      const docs = await parser.parseDirectory(tempDir);
+      const nodes = docs.get('test')?.nodes || [];
+      expect(nodes.map(node => node.type)).toEqual(['heading', 'paragraph', 'code', 'table', 'list']);
+      expect(nodes[1]?.text).toBe('See the config reference for [bltouch].');
+      expect(nodes[1]?.links).toEqual([{ href: 'Config_Reference.md#bltouch', text: 'config reference', line: 3 }]);
+      expect(nodes[2]).toMatchObject({ lang: 'ini', text: '[bltouch]\nsensor_pin: ^PB1' });
+      expect(nodes[3]?.rows).toEqual([['Probe', 'Type'], ['BLTouch', 'servo']]);
+      expect(nodes[4]?.children?.length).toBe(2);
+      expect(nodes[4]?.children?.[0]?.children?.[1]?.children?.[0]?.children?.[0]?.links?.[0]?.href).toBe('Probe_Calibrate.md');
+    });
+
+    it('should compute word count from prose only', async () => {
+      createTempFile('test.md', '# Title\n\nTwo words.\n\n```\none two three four five\n```');
+
+      const docs = await parser.parseDirectory(tempDir);
+      expect(docs.get('test')?.metadata.wordCount).toBe(3);
+    });
+
     it('should extract tags from content', async () => {
       createTempFile(
         'test.md',
@@ -127,6 +211,36 @@ describe('DocumentParser', () => {
     });
   });
 
+  describe('applyChanges', () => {
+    it('should only re-parse changed documents and drop deleted ones', async () => {
+      createTempFile('Kept.md', '# Kept\n\nUnchanged.');
+      createTempFile('Edited.md', '# Edited\n\nOld text.');
+      createTempFile('Removed.md', '# Removed');
+      createTempFile('Old_Name.md', '# Moved');
+
+      await parser.parseDirectory(tempDir);
+      const kept = parser.getDocument('Kept');
+
+      createTempFile('Edited.md', '# Edited\n\nNew text.');
+      createTempFile('New_Name.md', '# Moved');
+      createTempFile('Added.md', '# Added');
+      fs.rmSync(path.join(tempDir, 'Removed.md'));
+      fs.rmSync(path.join(tempDir, 'Old_Name.md'));
+
+      const docs = await parser.applyChanges(tempDir, [
+        { status: 'modified', path: 'Edited.md' },
+        { status: 'added', path: 'Added.md' },
+        { status: 'deleted', path: 'Removed.md' },
+        { status: 'renamed', path: 'New_Name.md', previousPath: 'Old_Name.md' },
+        { status: 'added', path: 'img/diagram.png' },
+      ]);
+
+      expect(Array.from(docs.keys()).sort()).toEqual(['Added', 'Edited', 'Kept', 'New_Name']);
+      expect(docs.get('Edited')?.content).toContain('New text.');
+      expect(docs.get('Kept')).toBe(kept);
+    });
+  });
+
   describe('getSections', () => {
     it('should return unique sections', async () => {
       createTempFile('section1/doc1.md', '# Doc 1');
@@ -84,6 +84,35 @@ describe('SearchEngine', () => {
     });
   });
 
+  describe('loadIndex', () => {
+    it('should restore a serialized index without rebuilding it', () => {
+      const serialized = JSON.parse(JSON.stringify(searchEngine.getSerializedIndex())) as object;
+      const restored = new SearchEngine();
+      restored.loadIndex(mockDocs, serialized);
+
+      expect(restored.isReady()).toBe(true);
+      expect(restored.search('rotation_distance').map(result => [result.document.id, result.score])).toEqual(
+        searchEngine.search('rotation_distance').map(result => [result.document.id, result.score])
+      );
+    });
+  });
+
+  describe('swap', () => {
+    it('should take over the index and documents of another engine', () => {
+      const next = new SearchEngine();
+      next.buildIndex(new Map([[
+        'Bed_Mesh',
+        createMockDocument('Bed_Mesh', 'Bed Mesh', 'Mesh leveling with a probe.', 'calibration'),
+      ]]));
+
+      searchEngine.swap(next);
+
+      expect(searchEngine.getStats().totalDocuments).toBe(1);
+      expect(searchEngine.search('mesh').map(result => result.document.id)).toEqual(['Bed_Mesh']);
+      expect(searchEngine.search('extruder')).toEqual([]);
+    });
+  });
+
   describe('search', () => {
     it('should find documents matching query', () => {
       const results = searchEngine.search('extruder');
@@ -116,6 +145,44 @@ describe('SearchEngine', () => {
     });
   });
 
+  describe('chunked search', () => {
+    it('should rank heading chunks and group them per document', () => {
+      const doc = createMockDocument(
+        'Config_Reference',
+        'Configuration reference',
+        '',
+        'config-reference'
+      );
+      doc.chunks = [
+        { anchor: 'stepper', level: 3, headingPath: ['Configuration reference', '[stepper]'], content: 'The rotation_distance is the distance the axis moves.' },
+        { anchor: 'extruder', level: 3, headingPath: ['Configuration reference', '[extruder]'], content: 'The extruder also uses rotation_distance for filament.' },
+        { anchor: 'fan', level: 3, headingPath: ['Configuration reference', '[fan]'], content: 'Print cooling fan settings.' },
+      ];
+      mockDocs.set(doc.id, doc);
+      searchEngine.buildIndex(mockDocs);
+
+      const results = searchEngine.search('rotation_distance');
+      const result = results.find(r => r.document.id === 'Config_Reference');
+      expect(results.filter(r => r.document.id === 'Config_Reference')).toHaveLength(1);
+      expect(result?.sections.map(section => section.anchor).sort()).toEqual(['extruder', 'stepper']);
+      expect(result?.sections[0]?.link).toMatch(/^klipper:\/\/docs\/Config_Reference#(stepper|extruder)$/);
+      expect(result?.sections[0]?.headingPath[0]).toBe('Configuration reference');
+    });
+
+    it('should link documents without chunks to the whole document', () => {
+      const results = searchEngine.search('extruder');
+      expect(results[0]?.sections[0]?.link).toBe('klipper://docs/config-reference/extruder');
+    });
+
+    it('should link into the versioned docs URI', () => {
+      const versioned = new SearchEngine('klipper://v0.12.0/docs');
+      versioned.buildIndex(mockDocs);
+
+      const results = versioned.search('extruder');
+      expect(results[0]?.sections[0]?.link).toBe('klipper://v0.12.0/docs/config-reference/extruder');
+    });
+  });
+
   describe('getDocument', () => {
     it('should return document by id', () => {
       const doc = searchEngine.getDocument('config-reference/extruder');
@@ -0,0 +1,147 @@
+/**
+ * MCP Klipper Documentation Server - Server Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { KlipperMCPServer } from '../src/server';
+import type { DocumentParser } from '../src/parser';
+import { SearchToolOutput, IndexStatsOutput } from '../src/types';
+
+const OVERVIEW = `# Overview
+
+## Installation And Configuration
+
+- [Bed Mesh](Bed_Mesh.md): Extra information on bed mesh.
+`;
+
+const BED_MESH = `# Bed Mesh
+
+The bed mesh module compensates for bed surface irregularities.
+
+## Basic Configuration
+
+Set probe_count and mesh_min for the bed mesh.
+`;
+
+describe('KlipperMCPServer', () => {
+  const env = { ...process.env };
+  let tempDir: string;
+  let origin: SimpleGit;
+  let server: KlipperMCPServer;
+  let client: Client;
+  let parseDirectory: jest.SpyInstance;
+  let applyChanges: jest.SpyInstance;
+
+  const commitFiles = async (files: Record<string, string>, message: string) => {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(tempDir, 'origin', file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'origin', file), content);
+    }
+    await origin.add('.');
+    await origin.commit(message);
+    return (await origin.revparse(['HEAD'])).trim();
+  };
+
+  const search = async (query: string) => {
+    const result = await client.callTool({ name: 'search_klipper_docs', arguments: { query } });
+    return (result.structuredContent as unknown as SearchToolOutput).results.map(entry => entry.document.id);
+  };
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-server-'));
+    fs.mkdirSync(path.join(tempDir, 'origin'));
+    origin = simpleGit(path.join(tempDir, 'origin'));
+    await origin.init(['--initial-branch', 'master']);
+    await origin.addConfig('user.name', 'Test');
+    await origin.addConfig('user.email', 'test@example.com');
+    await commitFiles({ 'docs/Overview.md': OVERVIEW, 'docs/Bed_Mesh.md': BED_MESH }, 'Add docs');
+
+    Object.assign(process.env, {
+      DOCS_SOURCE: 'git',
+      GIT_REPOSITORY: `file://${path.join(tempDir, 'origin')}`,
+      GIT_BRANCH: 'master',
+      GIT_LOCAL_PATH: path.join(tempDir, 'data', 'klipper-repo'),
+      GIT_RETRIES: '1',
+      GIT_RETRY_DELAY: '1',
+      INDEX_CACHE_ENABLED: 'false',
+      LOG_LEVEL: 'error',
+    });
+    // The server reads its configuration when first loaded
+    jest.resetModules();
+    const parser: { DocumentParser: typeof DocumentParser } = await import('../src/parser');
+    parseDirectory = jest.spyOn(parser.DocumentParser.prototype, 'parseDirectory');
+    applyChanges = jest.spyOn(parser.DocumentParser.prototype, 'applyChanges');
+
+    const { KlipperMCPServer } = await import('../src/server');
+    server = new KlipperMCPServer();
+    await server.initialize();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+    process.env = env;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should re-parse only the changed documents on a re-sync', async () => {
+    expect(parseDirectory).toHaveBeenCalledTimes(1);
+    expect(applyChanges).not.toHaveBeenCalled();
+    expect(await search('zeroing')).toEqual([]);
+
+    const head = await commitFiles({
+      'docs/Bed_Mesh.md': `${BED_MESH}\nRun BED_MESH_CALIBRATE after zeroing the probe.\n`,
+      'docs/Probe_Calibrate.md': '# Probe Calibrate\n\nMeasure the probe z_offset.\n',
+      'config/printer-example-2024.cfg': '[printer]\nkinematics: cartesian\n',
+    }, 'Update docs');
+    await server.sync();
+
+    expect(parseDirectory).toHaveBeenCalledTimes(1);
+    expect(applyChanges).toHaveBeenCalledTimes(1);
+    const [, changes] = applyChanges.mock.calls[0] as [string, unknown[]];
+    expect(changes).toEqual(expect.arrayContaining([
+      { status: 'modified', path: 'Bed_Mesh.md' },
+      { status: 'added', path: 'Probe_Calibrate.md' },
+    ]));
+    expect(changes).toHaveLength(2);
+
+    expect(await search('zeroing')).toEqual(['Bed_Mesh']);
+    expect(await search('z_offset')).toEqual(['Probe_Calibrate']);
+    const stats = await client.callTool({ name: 'get_index_stats', arguments: {} });
+    expect((stats.structuredContent as unknown as IndexStatsOutput).versions[0]).toMatchObject({ commit: head, documents: 3 });
+  });
+
+  it('should list suggestions from error details', async () => {
+    const errorOf = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError).toBe(true);
+      const [text, json] = result.content as { text: string }[];
+      return { text: text?.text, payload: JSON.parse(json?.text || '{}') as { details?: { suggestions?: unknown } } };
+    };
+
+    const lookup = await errorOf('get_config_option', { option: 'bedmeshh' });
+    expect(lookup.payload.details?.suggestions).toContain('Bed_Mesh');
+    expect(lookup.text).toContain('**Did you mean**: `Bed_Mesh`');
+
+    const browse = await errorOf('browse_docs', { path: 'Bed_Mesj' });
+    expect(browse.payload.details?.suggestions).toEqual(['Bed_Mesh']);
+    expect(browse.text).toContain('**Did you mean**: `Bed_Mesh`');
+  });
+
+  it('should skip parsing when nothing changed', async () => {
+    await server.sync();
+
+    expect(parseDirectory).toHaveBeenCalledTimes(1);
+    expect(applyChanges).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * MCP Klipper Documentation Server - Status Reference Tests
+ */
+
+import { StatusReference } from '../src/status-reference';
+import { createDocument } from './helpers';
+
+const STATUS_REFERENCE = `# Status reference
+
+This document is a reference of printer status information available
+in Klipper macros.
+
+## configfile
+
+The following information is available in the \`configfile\` object
+(this object is always available):
+- \`settings.<section>.<option>\`: Returns the given config file setting
+  (or default value) during the last software start or restart.
+- \`save_config_pending\`: Returns true if there are updates that a
+  \`SAVE_CONFIG\` command may persist to disk.
+
+## gcode_macro
+
+The following information is available in
+[gcode_macro some_name](Config_Reference.md#gcode_macro) objects:
+- \`<variable>\`: The current value of a gcode_macro variable.
+
+## heater
+
+The following information is available for heater objects such as
+[extruder](Config_Reference.md#extruder),
+[heater_bed](Config_Reference.md#heater_bed), and
+[heater_generic](Config_Reference.md#heater_generic):
+- \`temperature\`: The last reported temperature (in Celsius as a float)
+  for the given heater.
+- \`target\`: The current target temperature (in Celsius as a float) for
+  the given heater.
+
+## toolhead
+
+The following information is available in the \`toolhead\` object
+(this object is always available):
+- \`position\`: The last commanded position of the toolhead relative to
+  the coordinate system specified in the G-Code command.
+- \`min_x\`, \`max_x\`: The axis limits.
+`;
+
+describe('StatusReference', () => {
+  let reference: StatusReference;
+
+  beforeEach(() => {
+    reference = new StatusReference();
+    reference.parse(createDocument('Status_Reference', STATUS_REFERENCE));
+  });
+
+  describe('parse', () => {
+    it('should extract objects and attributes', () => {
+      expect(reference.getAllObjects().map(object => object.name)).toEqual([
+        'configfile',
+        'gcode_macro',
+        'heater',
+        'toolhead',
+      ]);
+      const toolhead = reference.getObject('toolhead');
+      expect(toolhead?.attributes.map(attribute => attribute.name)).toEqual(['position', 'min_x', 'max_x']);
+    });
+
+    it('should join wrapped attribute descriptions', () => {
+      const target = reference.getObject('heater')?.attributes.find(attribute => attribute.name === 'target');
+      expect(target?.description).toBe(
+        'The current target temperature (in Celsius as a float) for the given heater.'
+      );
+    });
+
+    it('should record objects named in the introduction', () => {
+      expect(reference.getObject('heater')?.appliesTo).toEqual(
+        expect.arrayContaining(['extruder', 'heater_bed', 'heater_generic'])
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve dotted references', () => {
+      const lookup = reference.resolve('printer.toolhead.position');
+      expect(lookup?.object.name).toBe('toolhead');
+      expect(lookup?.attribute?.name).toBe('position');
+    });
+
+    it('should resolve bracketed object names', () => {
+      const lookup = reference.resolve('printer["heater_bed"].target');
+      expect(lookup?.object.name).toBe('heater');
+      expect(lookup?.attribute?.name).toBe('target');
+      expect(reference.resolve("printer['extruder1'].temperature")?.attribute?.name).toBe('temperature');
+    });
+
+    it('should resolve nested and placeholder attributes', () => {
+      expect(reference.resolve('printer.toolhead.position.x')?.attribute?.name).toBe('position');
+      expect(reference.resolve('printer.configfile.settings.extruder.nozzle_diameter')?.attribute?.name)
+        .toBe('settings.<section>.<option>');
+      expect(reference.resolve('printer["gcode_macro START_PRINT"].bed_temp')?.attribute?.name)
+        .toBe('<variable>');
+    });
+
+    it('should report undocumented attributes', () => {
+      const lookup = reference.resolve('printer.toolhead.speed');
+      expect(lookup?.object.name).toBe('toolhead');
+      expect(lookup?.attribute).toBeUndefined();
+    });
+
+    it('should return undefined for unknown objects', () => {
+      expect(reference.resolve('printer.tooolhead.position')).toBeUndefined();
+      expect(reference.suggestObjects('printer.tooolhead.position')).toContain('toolhead');
+    });
+  });
+});
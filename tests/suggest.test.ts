@@ -0,0 +1,46 @@
+/**
+ * MCP Klipper Documentation Server - Suggestion Tests
+ */
+
+import { closestMatches, levenshtein, rankSuggestions, tokenize } from '../src/suggest';
+
+const CANDIDATES = [
+  'stepper_x',
+  'stepper_y',
+  'bed_mesh',
+  'bed_screws',
+  'heater_bed',
+  'rotation_distance',
+  'Bed_Mesh',
+  'Config_Reference',
+];
+
+describe('suggest', () => {
+  it('should compute edit distances', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(closestMatches('steper_x', CANDIDATES)).toEqual(['stepper_x', 'stepper_y']);
+  });
+
+  it('should tokenize names on separators', () => {
+    expect(tokenize('Config_Reference')).toEqual(['config', 'reference']);
+    expect(tokenize('bed-mesh 2')).toEqual(['bed', 'mesh', '2']);
+  });
+
+  it('should ignore separators when ranking', () => {
+    expect(rankSuggestions('stepper_x_', CANDIDATES)[0]).toBe('stepper_x');
+    expect(rankSuggestions('bedmesh', CANDIDATES).slice(0, 2)).toEqual(['bed_mesh', 'Bed_Mesh']);
+  });
+
+  it('should rank candidates sharing words with the target', () => {
+    const suggestions = rankSuggestions('mesh_bed', CANDIDATES);
+    expect(suggestions.slice(0, 2)).toEqual(['bed_mesh', 'Bed_Mesh']);
+    expect(suggestions).toContain('heater_bed');
+    expect(suggestions).not.toContain('rotation_distance');
+  });
+
+  it('should respect the limit', () => {
+    expect(rankSuggestions('bed', CANDIDATES, { limit: 2 })).toHaveLength(2);
+    expect(rankSuggestions('---', CANDIDATES)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * MCP Klipper Documentation Server - Sync Scheduler Tests
+ */
+
+import { SyncScheduler } from '../src/sync-scheduler';
+
+describe('SyncScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run the task on the interval', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler(task, { interval: 10000 });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(task).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+  });
+
+  it('should back off after failures and reset after a success', async () => {
+    const task = jest.fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler(task, { interval: 60000, retryDelay: 1000 });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(scheduler.getFailures()).toBe(1);
+    expect(scheduler.getNextDelay()).toBe(1000);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(scheduler.getFailures()).toBe(2);
+    expect(scheduler.getNextDelay()).toBe(2000);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(scheduler.getFailures()).toBe(0);
+    expect(scheduler.getNextDelay()).toBe(60000);
+
+    scheduler.stop();
+  });
+
+  it('should cap the backoff at the interval', () => {
+    const scheduler = new SyncScheduler(jest.fn(), { interval: 5000, retryDelay: 60000 });
+    expect(scheduler.getNextDelay()).toBe(5000);
+  });
+
+  it('should not reschedule after stop', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler(task, { interval: 1000 });
+    scheduler.start();
+    scheduler.stop();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MCP Klipper Documentation Server - Taxonomy Tests
+ */
+
+import { DocTaxonomy } from '../src/taxonomy';
+import { IndexCache } from '../src/index-cache';
+import { ParsedDocument } from '../src/types';
+import { createDocument } from './helpers';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const OVERVIEW = `# Overview
+
+Welcome to the Klipper documentation. If new to Klipper, start with the
+[features](Features.md) and [installation](Installation.md) documents.
+
+## Overview information
+
+- [Features](Features.md): A high-level list of features in Klipper.
+- [FAQ](FAQ.md): Frequently asked questions.
+
+## Installation and Configuration
+
+- [Installation](Installation.md): Guide to installing Klipper.
+- [Config checks](Config_checks.md): Verify basic pin settings in the config file.
+- [Bed level](Bed_Level.md): Information on "bed leveling" in Klipper.
+  - [Delta calibrate](Delta_Calibrate.md): Calibration of delta kinematics.
+  - [Bed Mesh](Bed_Mesh.md): Bed mesh compensation.
+- Command templates:
+  - [Command templates](Command_Templates.md): G-Code macros.
+
+## Developer Documentation
+
+- [Code overview](Code_Overview.md): Developers should read this first.
+- [Missing](Missing.md): Not in the corpus.
+`;
+
+describe('DocTaxonomy', () => {
+  let taxonomy: DocTaxonomy;
+  let docs: Map<string, ParsedDocument>;
+
+  beforeEach(() => {
+    const ids = [
+      'Features', 'FAQ', 'Installation', 'Config_checks', 'Bed_Level', 'Delta_Calibrate',
+      'Bed_Mesh', 'Command_Templates', 'Code_Overview',
+    ];
+    docs = new Map([
+      ['Overview', createDocument('Overview', OVERVIEW)],
+      ...ids.map(id => [id, createDocument(id, `# ${id}\n`, { section: 'calibration' })] as [string, ParsedDocument]),
+      ['Unlisted', createDocument('Unlisted', '# Unlisted\n', { section: 'hardware' })],
+    ]);
+    taxonomy = new DocTaxonomy();
+    taxonomy.build(docs);
+  });
+
+  it('should build categories from the Overview headings', () => {
+    expect(taxonomy.getCategories().map(category => [category.id, category.title])).toEqual([
+      ['overview-information', 'Overview information'],
+      ['installation-and-configuration', 'Installation and Configuration'],
+      ['developer-documentation', 'Developer Documentation'],
+    ]);
+  });
+
+  it('should nest entries and read their descriptions', () => {
+    const category = taxonomy.findCategory('Installation and Configuration');
+    expect(category?.children.map(node => [node.kind, node.id])).toEqual([
+      ['document', 'Installation'],
+      ['document', 'Config_checks'],
+      ['document', 'Bed_Level'],
+      ['subcategory', 'command-templates'],
+    ]);
+    expect(category?.children[2]).toMatchObject({
+      title: 'Bed level',
+      description: 'Information on "bed leveling" in Klipper.',
+    });
+    expect(category && taxonomy.getSubcategories(category).map(node => node.id)).toEqual(['Bed_Level', 'command-templates']);
+    expect(category && taxonomy.findNode(category, 'bed_level')?.children.map(node => node.documentId)).toEqual([
+      'Delta_Calibrate',
+      'Bed_Mesh',
+    ]);
+  });
+
+  it('should assign sections from the taxonomy and keep heuristics for unlisted documents', () => {
+    expect(docs.get('Config_checks')).toMatchObject({ section: 'installation-and-configuration', subsection: undefined });
+    expect(docs.get('Bed_Mesh')).toMatchObject({ section: 'installation-and-configuration', subsection: 'Bed_Level' });
+    expect(docs.get('Command_Templates')?.subsection).toBe('command-templates');
+    expect(docs.get('Features')?.section).toBe('overview-information');
+    expect(docs.get('Unlisted')?.section).toBe('hardware');
+    expect(docs.get('Overview')?.section).toBe('general');
+  });
+
+  it('should skip entries for documents that do not exist', () => {
+    const category = taxonomy.findCategory('developer-documentation');
+    expect(category && taxonomy.getDocumentIds(category)).toEqual(['Code_Overview']);
+  });
+
+  it('should restore heuristic sections for documents dropped from the Overview', () => {
+    const overview = OVERVIEW.replace('- [FAQ](FAQ.md): Frequently asked questions.\n', '');
+    docs.set('Overview', createDocument('Overview', overview));
+    taxonomy.build(docs);
+
+    expect(docs.get('FAQ')?.section).toBe('calibration');
+    expect(docs.get('Features')?.section).toBe('overview-information');
+  });
+
+  it('should restore heuristic sections for cached documents dropped from the Overview', () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-taxonomy-'));
+    try {
+      const cache = new IndexCache(cacheDir);
+      cache.save('abc123', docs, {});
+      const cached = new Map((cache.load()?.documents || []).map(doc => [doc.id, doc]));
+      expect(cached.get('FAQ')?.section).toBe('overview-information');
+
+      const overview = OVERVIEW.replace('- [FAQ](FAQ.md): Frequently asked questions.\n', '');
+      cached.set('Overview', createDocument('Overview', overview));
+      new DocTaxonomy().build(cached);
+
+      expect(cached.get('FAQ')?.section).toBe('calibration');
+      expect(cached.get('Bed_Mesh')).toMatchObject({ section: 'installation-and-configuration', subsection: 'Bed_Level' });
+    } finally {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should leave heuristic sections alone without an Overview', () => {
+    docs.delete('Overview');
+    const fallback = new DocTaxonomy();
+    expect(fallback.build(docs)).toEqual([]);
+    expect(docs.get('Unlisted')?.section).toBe('hardware');
+  });
+});
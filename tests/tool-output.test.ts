@@ -0,0 +1,381 @@
+/**
+ * MCP Klipper Documentation Server - Tool Output Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import { toolOutputSchemas, summarizeDocument, toSearchOutput } from '../src/tool-output';
+import { DocumentParser } from '../src/parser';
+import { SearchEngine } from '../src/search';
+import { DocTaxonomy } from '../src/taxonomy';
+import { ParsedDocument, BrowseOutput, IndexStatsOutput } from '../src/types';
+
+type ToolName = keyof typeof toolOutputSchemas;
+
+const validator = new AjvJsonSchemaValidator();
+
+// Validates what a client receives, after the record went through JSON
+const validate = (tool: ToolName, record: object) => {
+  const result = validator.getValidator(toolOutputSchemas[tool])(JSON.parse(JSON.stringify(record)));
+  return result.valid ? 'valid' : result.errorMessage;
+};
+
+const OVERVIEW = `# Overview
+
+## Installation And Configuration
+
+- [Configuration reference](Config_Reference.md): Config sections.
+- [Configuration changes](Config_Changes.md): Breaking changes.
+
+## Developer Documentation
+
+- [G-Codes](G-Codes.md): Commands.
+- [Status reference](Status_Reference.md): Printer status.
+`;
+
+const CONFIG_REFERENCE = `# Configuration reference
+
+See the [G-Codes](G-Codes.md) document for commands.
+
+### [printer]
+
+\`\`\`
+[printer]
+kinematics:
+#   The type of printer in use. This parameter must be provided.
+max_velocity:
+#   Maximum velocity (in mm/s) of the toolhead.
+#square_corner_velocity: 5.0
+#   The maximum velocity (in mm/s) that the toolhead may travel a 90
+#   degree corner at.
+#max_accel_to_decel:
+\`\`\`
+
+### [extruder]
+
+\`\`\`
+[extruder]
+step_pin:
+#   Step GPIO pin (triggered high).
+#pressure_advance: 0.0
+#   The amount of raw filament to push into the extruder during
+#   extruder acceleration.
+\`\`\`
+`;
+
+const CONFIG_CHANGES = `# Configuration Changes
+
+## Changes
+
+20240912: The \`max_accel_to_decel\` parameter in the \`[printer]\`
+config section has been removed. Use \`minimum_cruise_ratio\` instead.
+
+20220116: The \`SET_DUMB_COMMAND\` command has been removed.
+`;
+
+const GCODES = `# G-Codes
+
+## Additional Commands
+
+### [extruder]
+
+#### SET_PRESSURE_ADVANCE
+\`SET_PRESSURE_ADVANCE [EXTRUDER=<config_name>] [ADVANCE=<pressure_advance>]\`:
+Set pressure advance parameters of an extruder stepper.
+
+### [bed_mesh]
+
+#### BED_MESH_CALIBRATE
+\`BED_MESH_CALIBRATE [PROFILE=<name>]\`: This command probes the bed.
+
+#### BED_MESH_CLEAR
+\`BED_MESH_CLEAR\`: This command clears the mesh.
+`;
+
+const STATUS_REFERENCE = `# Status reference
+
+## toolhead
+
+The following information is available in the \`toolhead\` object
+(this object is always available):
+- \`position\`: The last commanded position of the toolhead.
+- \`homed_axes\`: The current cartesian axes considered to be in a
+  "homed" state.
+`;
+
+const ENDER3_V2 = `# This file contains pin mappings for the stock 2020 Creality Ender 3
+# V2. To use this config, during "make menuconfig" select the
+# STM32F103 with a "28KiB bootloader".
+
+[stepper_x]
+step_pin: PC2
+
+[extruder]
+step_pin: PB3
+heater_pin: PC8
+`;
+
+const SKR_MINI = `# This file contains common pin mappings for the BIGTREETECH SKR mini
+# E3 v2.0. To use this config, the firmware should be compiled for the
+# STM32F103 with a "28KiB bootloader" and USB communication.
+
+[stepper_x]
+step_pin: PB13
+dir_pin: !PB12
+
+[extruder]
+heater_pin: PC8
+sensor_pin: PA0
+
+[fan]
+pin: PC6
+`;
+
+const PRINTER_CFG = `[printer]
+kinematics: cartesian
+max_velocity: 300
+max_accel_to_decel: 3000
+
+[extruder]
+step_pin: PB3
+pressure_advnace: 0.05
+
+[gcode_macro START_PRINT]
+gcode:
+  SET_PRESSURE_ADVANCE ADVANCE=0.05
+  M117 {printer.toolhead.positoin}
+`;
+
+describe('Tool output', () => {
+  let tempDir: string;
+  let docs: Map<string, ParsedDocument>;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-output-'));
+    fs.writeFileSync(path.join(tempDir, 'Overview.md'), `# Overview
+
+## Installation And Configuration
+
+### Bed Level
+
+- [Bed Mesh](Bed_Mesh.md): Extra information on bed mesh.
+`);
+    fs.writeFileSync(path.join(tempDir, 'Bed_Mesh.md'), `# Bed Mesh
+
+The bed mesh module compensates for bed surface irregularities.
+
+## Basic Configuration
+
+Set probe_count and mesh_min for the bed mesh.
+
+\`\`\`
+[bed_mesh]
+probe_count: 5, 5
+\`\`\`
+`);
+    docs = await new DocumentParser().parseDirectory(tempDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should declare an object schema for every tool', () => {
+    expect(Object.keys(toolOutputSchemas)).toHaveLength(16);
+    Object.values(toolOutputSchemas).forEach(schema => {
+      expect(schema.type).toBe('object');
+    });
+  });
+
+  it('should summarize documents without their content and parse tree', () => {
+    const doc = docs.get('Bed_Mesh')!;
+    const summary = summarizeDocument(doc);
+
+    expect(summary).not.toHaveProperty('content');
+    expect(summary).not.toHaveProperty('nodes');
+    expect(summary).not.toHaveProperty('chunks');
+    expect(summary.metadata.headings.map(heading => heading.anchor)).toContain('basic-configuration');
+    expect(summary.filePath).toBe(doc.filePath);
+  });
+
+  it('should return search scores, paths, headings and snippets', () => {
+    const search = new SearchEngine();
+    search.buildIndex(docs);
+    const output = toSearchOutput('probe_count', 'master', search.search('probe_count'));
+
+    expect(output.totalResults).toBeGreaterThan(0);
+    const [first] = output.results;
+    expect(first!.document.id).toBe('Bed_Mesh');
+    expect(first!.score).toBeGreaterThan(0);
+    expect(first!.snippet).toBeTruthy();
+    expect(first!.sections[0]!.link).toBe('klipper://docs/Bed_Mesh#basic-configuration');
+    expect(first).not.toHaveProperty('metadata');
+    expect(validate('search_klipper_docs', output)).toBe('valid');
+    expect(validate('search_klipper_docs', toSearchOutput('nothing', 'master', []))).toBe('valid');
+  });
+
+  it('should match the browse and stats schemas', () => {
+    const search = new SearchEngine();
+    search.buildIndex(docs);
+    const taxonomy = new DocTaxonomy();
+    const categories = taxonomy.build(docs);
+    const stats = search.getStats();
+
+    const overview: BrowseOutput = { version: 'master', view: 'overview', categories, otherSections: [], stats };
+    expect(categories[0]!.children[0]!.kind).toBe('subcategory');
+    expect(validate('browse_docs', overview)).toBe('valid');
+
+    const document: BrowseOutput = {
+      version: 'master',
+      view: 'document',
+      document: summarizeDocument(docs.get('Bed_Mesh')!),
+      content: docs.get('Bed_Mesh')!.content,
+    };
+    expect(validate('browse_docs', document)).toBe('valid');
+    expect(validate('browse_docs', { version: 'master', view: 'index' })).toContain('view');
+
+    const indexStats: IndexStatsOutput = {
+      ...stats,
+      versions: [{ name: 'master', ref: 'master', indexed: true, commit: 'abc123', documents: docs.size }],
+    };
+    expect(validate('get_index_stats', indexStats)).toBe('valid');
+    expect(validate('get_index_stats', stats)).toContain('versions');
+  });
+});
+
+describe('Tool output from the server', () => {
+  const env = { ...process.env };
+  let tempDir: string;
+  let origin: SimpleGit;
+  let client: Client;
+
+  // Every tool result must match the tool's declared output schema
+  const call = async (tool: ToolName, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name: tool, arguments: args });
+    expect(result.isError).toBeFalsy();
+    const structured = result.structuredContent as Record<string, unknown>;
+    expect(validate(tool, structured)).toBe('valid');
+    return structured;
+  };
+
+  const commitFiles = async (files: Record<string, string>, message: string, date: string) => {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(tempDir, 'origin', file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'origin', file), content);
+    }
+    await origin.add('.');
+    await origin.env({ ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }).commit(message);
+  };
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'klipper-server-output-'));
+    fs.mkdirSync(path.join(tempDir, 'origin'));
+    origin = simpleGit(path.join(tempDir, 'origin'));
+    await origin.init(['--initial-branch', 'master']);
+    await origin.addConfig('user.name', 'Test');
+    await origin.addConfig('user.email', 'test@example.com');
+
+    await commitFiles({
+      'docs/Overview.md': OVERVIEW,
+      'docs/Config_Reference.md': CONFIG_REFERENCE,
+      'docs/Config_Changes.md': CONFIG_CHANGES,
+      'docs/G-Codes.md': GCODES,
+      'docs/Status_Reference.md': STATUS_REFERENCE,
+      'config/printer-creality-ender3-v2-2020.cfg': ENDER3_V2,
+      'config/generic-bigtreetech-skr-mini-e3-v2.0.cfg': SKR_MINI,
+    }, 'Add docs', '2023-01-01T12:00:00Z');
+    await commitFiles({
+      'docs/G-Codes.md': GCODES.replace('This command clears the mesh.', 'This command clears the mesh and\nremoves the profile from memory.'),
+    }, 'docs: Describe BED_MESH_CLEAR', '2024-01-01T12:00:00Z');
+
+    Object.assign(process.env, {
+      DOCS_SOURCE: 'git',
+      GIT_REPOSITORY: `file://${path.join(tempDir, 'origin')}`,
+      GIT_BRANCH: 'master',
+      GIT_LOCAL_PATH: path.join(tempDir, 'data', 'klipper-repo'),
+      GIT_RETRIES: '1',
+      GIT_RETRY_DELAY: '1',
+      INDEX_CACHE_ENABLED: 'false',
+      LOG_LEVEL: 'error',
+    });
+    // The server reads its configuration when first loaded
+    jest.resetModules();
+    const { KlipperMCPServer } = await import('../src/server');
+    const server = new KlipperMCPServer();
+    await server.initialize();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    process.env = env;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should match the config option schema for sections, options and documents', async () => {
+    expect(await call('get_config_option', { option: 'printer' })).toMatchObject({ match: 'section' });
+    expect(await call('get_config_option', { option: 'square_corner_velocity' })).toMatchObject({ match: 'option' });
+    expect(await call('get_config_option', { option: 'minimum_cruise_ratio' })).toMatchObject({ match: 'document' });
+  });
+
+  it('should match the schemas of the config file tools', async () => {
+    const files = { 'macros.cfg': '[gcode_macro END_PRINT]\ngcode:\n  M84\n' };
+    const config = `[include macros.cfg]\n${PRINTER_CFG}`;
+
+    const validation = await call('validate_printer_config', { config, files });
+    expect(validation.valid).toBe(false);
+    expect(await call('parse_printer_config', { config, files })).toHaveProperty('files');
+
+    const deprecations = await call('check_config_deprecations', { config: PRINTER_CFG, installDate: '2023-06-01' });
+    expect(deprecations.findings).toHaveLength(1);
+    // The install date of a commit comes from the git history
+    expect(await call('check_config_deprecations', { config: PRINTER_CFG, installCommit: 'HEAD' })).toHaveProperty('installDate');
+
+    const lint = await call('lint_gcode_macro', { macro: PRINTER_CFG });
+    expect(lint.macros).toEqual([expect.objectContaining({ macro: 'gcode_macro START_PRINT' })]);
+  });
+
+  it('should match the G-Code schema for commands, listings, close matches and misses', async () => {
+    expect(await call('get_gcode_command', { command: 'SET_PRESSURE_ADVANCE' })).toHaveProperty('command');
+    expect(await call('get_gcode_command', { command: 'BED_MESH' })).toHaveProperty('commands');
+    expect(await call('get_gcode_command', { command: 'SET_PRESURE_ADVANCE' })).toHaveProperty('suggestions');
+    expect(await call('get_gcode_command', { command: 'XYZZY' })).toEqual({ commands: [], suggestions: [] });
+  });
+
+  it('should match the status schema for objects, attributes and misses', async () => {
+    expect(await call('get_status_attribute', { reference: 'toolhead' })).toHaveProperty('object');
+    expect(await call('get_status_attribute', { reference: 'printer.toolhead.position' })).toHaveProperty('attribute');
+    expect(await call('get_status_attribute', { reference: 'toolhead.positoin' })).toHaveProperty('path');
+    expect(await call('get_status_attribute', { reference: 'xyzzy' })).toMatchObject({ objects: ['toolhead'] });
+  });
+
+  it('should match the schemas of the example config and board tools', async () => {
+    expect(await call('find_example_config', { query: 'ender' })).toHaveProperty('configs');
+    expect(await call('find_example_config', { query: 'prusa' })).toEqual({ configs: [] });
+    expect(await call('get_board_pins', { board: 'skr-mini' })).toMatchObject({ boards: [{ name: 'BIGTREETECH SKR mini E3 v2.0' }] });
+    expect(await call('get_board_pins', { pin: 'PA8', role: 'heater' })).toEqual({ boards: [] });
+  });
+
+  it('should match the schemas of the documentation tools', async () => {
+    expect(await call('get_related_docs', { document: 'Config_Reference' })).toHaveProperty('related');
+    expect(await call('docs_health_report')).toHaveProperty('issues');
+  });
+
+  it('should match the schemas of the git history tools', async () => {
+    const changes = await call('docs_changes_since', { since: '2023-06-01' });
+    expect(changes.documents).toEqual([expect.objectContaining({ id: 'G-Codes', status: 'modified' })]);
+
+    const history = await call('get_doc_history', { document: 'G-Codes', anchor: 'bed_mesh_clear' });
+    expect(history.commits).toHaveLength(2);
+    expect(history.section).toMatchObject({ lastChanged: expect.objectContaining({ subject: 'docs: Describe BED_MESH_CLEAR' }) });
+  });
+});